@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Login } from './components/Login';
 import { VerifyOTP } from './components/VerifyOTP';
 import { ProductsDashboard } from './components/ProductsDashboard';
@@ -6,11 +6,25 @@ import { Cart } from './components/Cart';
 import { SalesHistory } from './components/SalesHistory';
 // import { AddProduct } from './components/AddProduct';
 import { ManageProducts } from './components/ManageProducts';
+import { Settings } from './components/Settings';
+import { Customers } from './components/Customers';
+import { PromotionsManager } from './components/PromotionsManager';
+import { CouponsManager } from './components/CouponsManager';
 import { Navigation } from './components/Navigation';
+import { RejectedOrdersPanel } from './components/RejectedOrdersPanel';
 import { ApiService } from './services/api';
-import { Product, CartItem, ActiveTab } from './types';
+import { OrderOutbox } from './services/orderOutbox';
+import { SettingsService } from './services/settings';
+import { HeldCarts } from './services/heldCarts';
+import { CartSession } from './services/cartSession';
+import { StockHolds, StockConflicts } from './services/stockHolds';
+import { InventoryFeed } from './services/inventoryFeed';
+import { CartStock } from './utils/cartStock';
+import { StockLevels } from './utils/stockLevels';
+import { Product, CartItem, ActiveTab, CheckoutDetails, CheckoutDraft, CreateOrderRequest, HeldCart, MiscItemInput, PendingOrder, Promotion, ShopSettings } from './types';
 import { Loader } from './components/ui/Loader';
 import { ErrorBanner } from './components/ui/ErrorBanner';
+import { ConfirmDialog } from './components/ui/ConfirmDialog';
 import { useToast } from './components/ui/Toast';
 import { ProtectedRoute } from './components/auth/ProtectedRoute';
 
@@ -23,7 +37,46 @@ function App() {
   const [activeTab, setActiveTab] = useState<ActiveTab>('products');
   const [products, setProducts] = useState<Product[]>([]);
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>(() => HeldCarts.list());
+  const [checkoutDraft, setCheckoutDraft] = useState<CheckoutDraft | null>(null);
+  const [cartRestored, setCartRestored] = useState(false);
+  const [stockConflicts, setStockConflicts] = useState<StockConflicts>({});
   const [error, setError] = useState<string | null>(null);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [rejectedOrders, setRejectedOrders] = useState<PendingOrder[]>([]);
+  const [confirmDiscardId, setConfirmDiscardId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<ShopSettings>(() => SettingsService.loadLocal());
+  const [promotions, setPromotions] = useState<Promotion[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('promotions-cache') || '[]');
+    } catch {
+      return [];
+    }
+  });
+
+  // Resolves to the fresh list, or null when the fetch failed and the current list is stale
+  const loadProducts = useCallback(async (): Promise<Product[] | null> => {
+    try {
+      const response = await ApiService.getAllProducts();
+      // Normalize possible response shapes
+      let list: Product[] = [];
+      if (Array.isArray(response)) {
+        list = response as Product[];
+      } else if (Array.isArray((response as any)?.data)) {
+        list = (response as any).data as Product[];
+      } else if (Array.isArray((response as any)?.products)) {
+        list = (response as any).products as Product[];
+      } else if ((response as any)?.success && Array.isArray((response as any)?.data?.products)) {
+        list = (response as any).data.products as Product[];
+      }
+      setProducts(list);
+      return list;
+    } catch (error) {
+      console.error('Failed to load products:', error);
+  setError((error as any)?.message || 'Failed to load products');
+      return null;
+    }
+  }, []);
 
   // Load data from localStorage on mount
   useEffect(() => {
@@ -31,50 +84,160 @@ function App() {
     const token = ApiService.getToken();
     if (token) {
       setIsAuthenticated(true);
-      loadProducts();
+      loadProducts().then(fresh => {
+        const changes = restoreCart(fresh);
+        if (changes) show(`Saved cart updated; ${changes}`, { type: 'warning' });
+      });
     }
     
     setIsLoading(false);
-  }, []);
+  }, [show, loadProducts]);
+
+  // Keep the active cart in storage so a reload or logout does not lose it
+  useEffect(() => {
+    if (!isAuthenticated || !cartRestored) return;
+    CartSession.save(ApiService.getUser(), cartItems, checkoutDraft);
+  }, [isAuthenticated, cartRestored, cartItems, checkoutDraft]);
+
+  // Hold the cart's units on the server so another terminal cannot sell them meanwhile
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let cancelled = false;
+    StockHolds.sync(cartItems).then(conflicts => {
+      if (!cancelled) setStockConflicts(conflicts);
+    });
+    return () => { cancelled = true; };
+  }, [isAuthenticated, cartItems]);
+
+  // Renew the holds while the cart is open
+  const hasCartItems = cartItems.length > 0;
+  useEffect(() => {
+    if (!isAuthenticated || !hasCartItems) return;
+    const timer = window.setInterval(() => {
+      StockHolds.renew().then(conflicts => setStockConflicts(prev => ({ ...prev, ...conflicts })));
+    }, StockHolds.renewIntervalMs);
+    return () => window.clearInterval(timer);
+  }, [isAuthenticated, hasCartItems]);
+
+  // Patch stock sold or restocked on other terminals into the product list and the open cart
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const unsubscribe = InventoryFeed.subscribe(levels => {
+      setProducts(prev => StockLevels.patchProducts(prev, levels));
+      setCartItems(prev => StockLevels.patchCart(prev, levels));
+    });
+    InventoryFeed.start();
+    return () => {
+      unsubscribe();
+      InventoryFeed.stop();
+    };
+  }, [isAuthenticated]);
 
   // Fetch products when navigating to Manage Products and list is empty
   useEffect(() => {
     if (isAuthenticated && activeTab === 'manage-products' && products.length === 0) {
       loadProducts();
     }
-  }, [isAuthenticated, activeTab]);
+  }, [isAuthenticated, activeTab, loadProducts]);
+
+  // Refresh settings from the server once signed in (cached copy is used until then)
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    SettingsService.fetch().then(setSettings);
+    loadPromotions();
+  }, [isAuthenticated]);
 
-  const loadProducts = async () => {
+  // Brings back the signed-in user's saved cart against freshly loaded stock, dropping or clamping
+  // lines that no longer fit. Nothing is saved before this runs, so the stored copy is never
+  // overwritten by the empty cart. Returns a description of any changed lines.
+  const restoreCart = (fresh: Product[] | null): string => {
+    const saved = CartSession.load(ApiService.getUser());
+    setCheckoutDraft(saved?.draft || null);
+    setCartRestored(true);
+    if (!saved?.items.length) return '';
+    if (!fresh) {
+      // Offline: keep the lines as saved; the server re-checks stock when the order is placed
+      setCartItems(saved.items);
+      return '';
+    }
+    const result = CartStock.reconcile(saved.items, fresh);
+    setCartItems(result.items);
+    return CartStock.describe(result);
+  };
+
+  // Cached so checkout keeps applying promotions while offline
+  const loadPromotions = async () => {
     try {
-      const response = await ApiService.getAllProducts();
-      // Normalize possible response shapes
-      let list: Product[] = [];
-      if (Array.isArray(response)) {
-        list = response as Product[];
-      } else if (Array.isArray((response as any)?.data)) {
-        list = (response as any).data as Product[];
-      } else if (Array.isArray((response as any)?.products)) {
-        list = (response as any).products as Product[];
-      } else if ((response as any)?.success && Array.isArray((response as any)?.data?.products)) {
-        list = (response as any).data.products as Product[];
+      const response = await ApiService.getPromotions();
+      const list = Array.isArray(response) ? response : Array.isArray(response?.promotions) ? response.promotions : [];
+      setPromotions(list);
+      localStorage.setItem('promotions-cache', JSON.stringify(list));
+    } catch (error) {
+      console.error('Failed to load promotions, using cached copy:', error);
+    }
+  };
+
+  const syncPendingOrders = useCallback(async () => {
+    try {
+      const { synced, rejected, failed, remaining } = await OrderOutbox.flush();
+      setPendingSyncCount(remaining);
+      setRejectedOrders(await OrderOutbox.rejected());
+      if (synced > 0) {
+        show(`${synced} offline order${synced > 1 ? 's' : ''} synced`, { type: 'success' });
+        await loadProducts();
+      }
+      // Rejected orders are set aside, so this is reported once per order
+      if (rejected > 0) {
+        show(`${rejected} offline order${rejected > 1 ? 's were' : ' was'} rejected by the server`, { type: 'error' });
+      }
+      if (failed > 0) {
+        show(`${failed} offline order${failed > 1 ? 's' : ''} could not sync and will be retried`, { type: 'warning' });
       }
-      setProducts(list);
     } catch (error) {
-      console.error('Failed to load products:', error);
-  setError((error as any)?.message || 'Failed to load products');
+      console.error('Failed to sync offline orders:', error);
+    }
+  }, [show, loadProducts]);
+
+  // Replay offline orders on sign-in and whenever the connection comes back
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    syncPendingOrders();
+    const onOnline = () => syncPendingOrders();
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [isAuthenticated, syncPendingOrders]);
+
+  const handleDiscardRejected = async (id: string) => {
+    setConfirmDiscardId(null);
+    try {
+      await OrderOutbox.remove(id);
+      setRejectedOrders(await OrderOutbox.rejected());
+    } catch (error) {
+      console.error('Failed to discard rejected order:', error);
+      show('Could not discard the order. Please try again.', { type: 'error' });
     }
   };
 
+  const handleSaveSettings = async (next: ShopSettings) => {
+    const { settings: saved, synced } = await SettingsService.save(next);
+    setSettings(saved);
+    return { synced };
+  };
+
   const handleOTPRequired = (email: string) => {
     setLoginEmail(email);
     setShowOTPVerification(true);
   };
 
   const handleOTPVerified = (_token: string) => {
+    if (loginEmail) ApiService.setUser(loginEmail);
     setIsAuthenticated(true);
     setShowOTPVerification(false);
     setLoginEmail('');
-    loadProducts();
+    loadProducts().then(fresh => {
+      const changes = restoreCart(fresh);
+      if (changes) show(`Saved cart updated; ${changes}`, { type: 'warning' });
+    });
   };
 
   const handleBackToLogin = () => {
@@ -86,87 +249,154 @@ function App() {
     setIsAuthenticated(false);
     setShowOTPVerification(false);
     setLoginEmail('');
+    StockHolds.releaseAll();
     ApiService.clearToken();
-    setCartItems([]); // Clear cart on logout
+    // The saved copy stays in storage for this user's next sign-in
+    setCartRestored(false);
+    setCartItems([]);
+    setCheckoutDraft(null);
     setActiveTab('products'); // Reset to products tab
   };
 
   const handleAddToCart = (product: Product, size: string) => {
-    const sizeStock = product.sizes.find(s => s.size === size)?.quantity || 0;
+    const sizeEntry = product.sizes.find(s => s.size === size);
+    const sizeStock = sizeEntry?.quantity || 0;
     if (sizeStock === 0) {
       show('Selected size is out of stock', { type: 'warning' });
       return;
     }
     
+    const lineKey = CartStock.lineKey({ _id: product._id, selectedSize: size });
     setCartItems(prev => {
-      const existingItem = prev.find(item => item._id === product._id && item.selectedSize === size);
+      const existingItem = prev.find(item => CartStock.lineKey(item) === lineKey);
       
       if (existingItem) {
         if (existingItem.cartQuantity < sizeStock) {
           return prev.map(item =>
-            item._id === product._id && item.selectedSize === size
-              ? { ...item, cartQuantity: item.cartQuantity + 1 }
+            CartStock.lineKey(item) === lineKey
+              ? { ...item, cartQuantity: item.cartQuantity + 1, quantity: sizeStock }
               : item
           );
         }
         show('No more stock available for this size', { type: 'warning' });
         return prev;
       } else {
-        return [...prev, { ...product, cartQuantity: 1, selectedSize: size, quantity: sizeStock }];
+        return [...prev, {
+          ...product,
+          retailPrice: sizeEntry?.price ?? product.retailPrice, // size-level price override
+          cartQuantity: 1,
+          selectedSize: size,
+          selectedSku: sizeEntry?.sku,
+          selectedBarcode: sizeEntry?.barcode || product.barcode,
+          quantity: sizeStock
+        }];
       }
     });
   };
 
-  const handleUpdateQuantity = (id: string, quantity: number) => {
+  const handleUpdateQuantity = (lineKey: string, quantity: number) => {
     if (quantity <= 0) {
-      handleRemoveItem(id);
+      handleRemoveItem(lineKey);
       return;
     }
-    
+
+    const line = cartItems.find(item => CartStock.lineKey(item) === lineKey);
+    if (!line) return;
+    // item.quantity is the stock of this line's size, not of the whole product
+    const limit = CartStock.stockLimit(line);
+    if (quantity > limit) {
+      show(`Only ${line.quantity} of ${line.name} in size ${line.selectedSize}`, { type: 'warning' });
+    }
+    const capped = Math.min(quantity, limit);
     setCartItems(prev =>
       prev.map(item =>
-        item._id === id ? { ...item, cartQuantity: quantity } : item
+        CartStock.lineKey(item) === lineKey ? { ...item, cartQuantity: capped } : item
       )
     );
   };
 
-  const handleRemoveItem = (id: string) => {
-    setCartItems(prev => prev.filter(item => item._id !== id));
+  const handleAddMiscItem = (input: MiscItemInput) => {
+    setCartItems(prev => [...prev, CartStock.miscLine(input)]);
+  };
+
+  const handleRemoveItem = (lineKey: string) => {
+    setCartItems(prev => prev.filter(item => CartStock.lineKey(item) !== lineKey));
+  };
+
+  const handleParkCart = (name: string) => {
+    if (cartItems.length === 0) return;
+    const held = HeldCarts.park(name, cartItems);
+    setHeldCarts(HeldCarts.list());
+    setCartItems([]);
+    show(`Cart parked as "${held.name}"`, { type: 'success' });
+  };
+
+  const handleResumeCart = async (id: string) => {
+    const held = heldCarts.find(c => c.id === id);
+    if (!held) return;
+    // Stock may have moved while the cart was parked
+    const fresh = await loadProducts();
+    const result = CartStock.reconcile(held.items, fresh || products);
+    if (cartItems.length > 0) {
+      HeldCarts.park(`Parked ${new Date().toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`, cartItems);
+    }
+    HeldCarts.remove(id);
+    setHeldCarts(HeldCarts.list());
+    setCartItems(result.items);
+    const changes = CartStock.describe(result);
+    show(changes ? `Resumed "${held.name}"; ${changes}` : `Resumed "${held.name}"`, { type: changes ? 'warning' : 'success' });
   };
 
-  const handleConfirmSale = async (orderData: {
-    customerPhone?: string;
-    paymentMethod: 'CASH' | 'UPI';
-    paymentStatus: 'PENDING' | 'PAID';
-    discount?: number;
-    notes?: string;
-  }) => {
+  const handleDeleteHeldCart = (id: string) => {
+    HeldCarts.remove(id);
+    setHeldCarts(HeldCarts.list());
+  };
+
+  // Resolves to whether the sale was recorded (or queued offline), so Cart knows when to clear its form
+  const handleConfirmSale = async (orderData: CheckoutDetails): Promise<boolean> => {
     if (cartItems.length === 0) {
       show('Cart is empty. Add items before checkout.', { type: 'warning' });
-      return;
+      return false;
     }
 
+    const { lineDiscounts, ...checkout } = orderData;
     // Create order items for API
-    const orderItems = cartItems.map(item => ({
-      product: item._id,
-      size: item.selectedSize,
-      qty: item.cartQuantity,
-      price: item.retailPrice
-    }));
-
-    const apiOrderData = {
+    const orderItems = cartItems.map((item, index) => {
+      const promoDiscount = (orderData.promotions || [])
+        .filter(p => p.itemIndex === index)
+        .reduce((sum, p) => sum + p.amount, 0);
+      // Quick-sale lines have no product; the server bills them from their own name, GST rate and HSN
+      const line = item.misc
+        ? { name: item.name, gst: item.gst, hsnSac: item.hsnSac }
+        : { product: item._id };
+      return {
+        ...line,
+        size: item.selectedSize,
+        sku: item.selectedSku,
+        qty: item.cartQuantity,
+        price: item.retailPrice,
+        promoDiscount: promoDiscount || undefined,
+        lineDiscount: lineDiscounts?.[index] || undefined
+      };
+    });
+
+    const apiOrderData: CreateOrderRequest = {
       items: orderItems,
-      ...orderData
+      ...checkout,
+      holdIds: StockHolds.ids()
     };
+    // Same key is reused if this sale has to be replayed from the outbox
+    const idempotencyKey = OrderOutbox.createIdempotencyKey();
 
     try {
-      const response = await ApiService.createOrder(apiOrderData);
+      const response = await ApiService.createOrder(apiOrderData, { idempotencyKey });
       
       if (response._id) {
         // Reload products to get updated inventory
         await loadProducts();
         
-        // Clear cart
+        // Clear cart; the server has turned its holds into the sale
+        StockHolds.forget();
         setCartItems([]);
         
         // Switch to history tab to show the completed sale
@@ -174,12 +404,27 @@ function App() {
         
         // Show success feedback
         show('Order created successfully', { type: 'success' });
-      } else {
-        show('Failed to create order', { type: 'error' });
+        return true;
       }
+      show('Failed to create order', { type: 'error' });
+      return false;
     } catch (error) {
+      if (OrderOutbox.isOfflineError(error)) {
+        try {
+          // The holds expire long before a replay, so the queued sale goes without them and they are let go
+          await OrderOutbox.enqueue({ ...apiOrderData, holdIds: undefined }, idempotencyKey);
+          setPendingSyncCount(await OrderOutbox.count());
+          StockHolds.releaseAll();
+          setCartItems([]);
+          show('You are offline. Order saved and will sync when the connection returns.', { type: 'warning' });
+          return true;
+        } catch (queueError) {
+          console.error('Failed to queue offline order:', queueError);
+        }
+      }
       console.error('Error creating order:', error);
       show('Error creating order. Please try again.', { type: 'error' });
+      return false;
     }
   };
 
@@ -230,12 +475,22 @@ function App() {
             onUpdateQuantity={handleUpdateQuantity}
             onRemoveItem={handleRemoveItem}
             onConfirmSale={handleConfirmSale}
+            settings={settings}
+            promotions={promotions}
+            draft={checkoutDraft}
+            onDraftChange={setCheckoutDraft}
+            heldCarts={heldCarts}
+            onParkCart={handleParkCart}
+            onResumeCart={handleResumeCart}
+            onDeleteHeldCart={handleDeleteHeldCart}
+            onAddMiscItem={handleAddMiscItem}
+            stockConflicts={stockConflicts}
           />
         );
       case 'history':
         return (
           <ProtectedRoute fallback={<Login onLogin={handleOTPVerified} onOTPRequired={handleOTPRequired} />}>
-            <SalesHistory />
+            <SalesHistory settings={settings} products={products} />
           </ProtectedRoute>
         );
       case 'manage-products':
@@ -244,9 +499,34 @@ function App() {
             <ManageProducts
               products={products}
               onProductsChange={loadProducts}
+              lowStockThreshold={settings.lowStockThreshold}
             />
           </ProtectedRoute>
         );
+      case 'customers':
+        return (
+          <ProtectedRoute fallback={<Login onLogin={handleOTPVerified} onOTPRequired={handleOTPRequired} />}>
+            <Customers settings={settings} />
+          </ProtectedRoute>
+        );
+      case 'promotions':
+        return (
+          <ProtectedRoute fallback={<Login onLogin={handleOTPVerified} onOTPRequired={handleOTPRequired} />}>
+            <PromotionsManager promotions={promotions} products={products} onPromotionsChange={loadPromotions} />
+          </ProtectedRoute>
+        );
+      case 'coupons':
+        return (
+          <ProtectedRoute fallback={<Login onLogin={handleOTPVerified} onOTPRequired={handleOTPRequired} />}>
+            <CouponsManager products={products} />
+          </ProtectedRoute>
+        );
+      case 'settings':
+        return (
+          <ProtectedRoute fallback={<Login onLogin={handleOTPVerified} onOTPRequired={handleOTPRequired} />}>
+            <Settings settings={settings} onSave={handleSaveSettings} />
+          </ProtectedRoute>
+        );
       default:
         return (
           <ProtectedRoute fallback={<Login onLogin={handleOTPVerified} onOTPRequired={handleOTPRequired} />}>
@@ -267,12 +547,25 @@ function App() {
         {error && (
           <div className="p-4"><ErrorBanner message={error} onRetry={() => { setError(null); loadProducts(); }} /></div>
         )}
+        {rejectedOrders.length > 0 && (
+          <div className="p-4"><RejectedOrdersPanel orders={rejectedOrders} onDiscard={setConfirmDiscardId} /></div>
+        )}
         {renderActiveTab()}
         
+        <ConfirmDialog
+          isOpen={!!confirmDiscardId}
+          title="Discard rejected sale?"
+          message="It will be removed from this device. Nothing was recorded on the server."
+          confirmText="Discard"
+          onCancel={() => setConfirmDiscardId(null)}
+          onConfirm={() => confirmDiscardId && handleDiscardRejected(confirmDiscardId)}
+        />
         <Navigation
           activeTab={activeTab}
           onTabChange={setActiveTab}
           cartItemsCount={cartItemsCount}
+          pendingSyncCount={pendingSyncCount}
+          onSyncPending={syncPendingOrders}
           onLogout={handleLogout}
         />
       </div>
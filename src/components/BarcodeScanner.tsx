@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Camera } from 'lucide-react';
+import { getBarcodeDetector } from '../utils/barcode';
+
+interface CameraScannerProps {
+  isOpen: boolean;
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+export const CameraScanner: React.FC<CameraScannerProps> = ({ isOpen, onDetected, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const Detector = getBarcodeDetector();
+    if (!Detector) {
+      setError('Camera scanning is not supported in this browser');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    const detector = new Detector({ formats: ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39', 'qr_code'] });
+
+    const scan = async () => {
+      if (stopped || !videoRef.current) return;
+      try {
+        const codes = await detector.detect(videoRef.current);
+        const value = codes.find(c => c.rawValue)?.rawValue;
+        if (value && !stopped) {
+          onDetectedRef.current(value);
+          return;
+        }
+      } catch {
+        // Frame not ready yet; try again on the next tick
+      }
+      timer = setTimeout(scan, 250);
+    };
+
+    setError(null);
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (s) => {
+        if (stopped) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) {
+          videoRef.current.srcObject = s;
+          await videoRef.current.play();
+        }
+        scan();
+      })
+      .catch((err) => {
+        console.error('Failed to start camera:', err);
+        setError('Unable to access the camera. Check browser permissions.');
+      });
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+      <div className="bg-surface rounded-3xl shadow-strong max-w-md w-full animate-slide-in">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <h3 className="font-display text-xl font-semibold text-gray-900 flex items-center gap-2">
+            <Camera className="h-5 w-5 text-primary" />
+            Scan Barcode
+          </h3>
+          <button
+            onClick={onClose}
+            aria-label="Close scanner"
+            className="p-2 rounded-xl text-accent-400 hover:text-accent-600 hover:bg-gray-50 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="p-6">
+          {error ? (
+            <p className="text-sm text-primary text-center py-12">{error}</p>
+          ) : (
+            <div className="relative rounded-2xl overflow-hidden bg-black aspect-[4/3]">
+              <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+              <div className="absolute inset-x-8 top-1/2 h-0.5 bg-primary/80 shadow-[0_0_8px_rgba(211,43,38,0.8)]" />
+            </div>
+          )}
+          <p className="text-center text-accent-400 text-sm mt-4">Point the camera at the product barcode</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -72,10 +72,10 @@ export const BulkUpload: React.FC<BulkUploadProps> = ({ onUploadComplete }) => {
             <li><strong>category</strong> - Product category (required)</li>
             <li><strong>wholesalePrice</strong> - Wholesale price (required)</li>
             <li><strong>retailPrice</strong> - Retail price (required)</li>
-            <li><strong>sizes</strong> - JSON format: {`[{"size":"M","quantity":10}]`}</li>
+            <li><strong>sizes</strong> - JSON format: {`[{"size":"M","quantity":10}]`}. Each size may also carry optional <code>sku</code>, <code>barcode</code> and <code>price</code> (override), e.g. {`[{"size":"M","quantity":10,"sku":"TS-M","barcode":"8901234567890","price":499}]`}</li>
             <li><strong>description</strong> - Product description (optional)</li>
             <li><strong>brand</strong> - Brand name (optional)</li>
-            <li><strong>barcode</strong> - Product barcode (optional)</li>
+            <li><strong>barcode</strong> - Product barcode, used when a size has no barcode of its own (optional)</li>
             <li><strong>HSN/SAC</strong> - HSN or SAC code (optional)</li>
             <li><strong>GST</strong> - GST percentage as a number, e.g., 18 (optional)</li>
           </ul>
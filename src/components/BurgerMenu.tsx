@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Menu, X, Settings, Package, LogOut } from 'lucide-react';
+import { Menu, X, Settings, Package, LogOut, Users, Tag, TicketPercent } from 'lucide-react';
 import { ActiveTab } from '../types';
 
 interface BurgerMenuProps {
@@ -12,6 +12,9 @@ export const BurgerMenu: React.FC<BurgerMenuProps> = ({ onNavigate, onLogout })
 
   const menuItems = [
     { id: 'manage-products' as ActiveTab, label: 'Manage Products', icon: Package },
+    { id: 'customers' as ActiveTab, label: 'Customers', icon: Users },
+    { id: 'promotions' as ActiveTab, label: 'Promotions', icon: Tag },
+    { id: 'coupons' as ActiveTab, label: 'Coupons', icon: TicketPercent },
     { id: 'settings' as ActiveTab, label: 'Settings', icon: Settings },
   ];
 
@@ -1,92 +1,439 @@
-import React, { useState } from 'react';
-import { ShoppingCart, Plus, Minus, Check, Trash2, Phone, CreditCard, Banknote, Percent, FileText } from 'lucide-react';
-import { CartItem } from '../types';
+import React, { useEffect, useState } from 'react';
+import { ShoppingCart, Plus, Minus, Check, Trash2, Banknote, Percent, FileText, Split, X, Star, Tag, ShieldAlert, TicketPercent, PauseCircle, Inbox, AlertTriangle, PackagePlus } from 'lucide-react';
+import { ApiError, CartItem, CheckoutDetails, CheckoutDraft, CouponLookup, Customer, DiscountApproval, DiscountMode, HeldCart, MiscItemInput, OrderPayment, PaymentMethod, Promotion, ShopSettings } from '../types';
+import { ApiService } from '../services/api';
+import { OrderOutbox } from '../services/orderOutbox';
 import { UPIPaymentModal } from './UPIPaymentModal';
 import { ConfirmDialog } from './ui/ConfirmDialog';
 import { useToast } from './ui/Toast';
+import { UPIIntent } from '../utils/upi';
+import { Payments } from '../utils/payments';
+import { Tenders } from '../utils/tenders';
+import { Loyalty } from '../utils/loyalty';
+import { Promotions } from '../utils/promotions';
+import { Discounts } from '../utils/discounts';
+import { Coupons } from '../utils/coupons';
+import { CartStock } from '../utils/cartStock';
+import { StockLevels } from '../utils/stockLevels';
+import { Gst } from '../utils/gst';
+import { Tax } from '../utils/tax';
+import { TenderCapture } from './TenderCapture';
+import { CustomerPicker } from './CustomerPicker';
+import { ManagerApproval } from './ManagerApproval';
+import { HeldCartsPanel } from './HeldCartsPanel';
+import { QuickSaleForm } from './QuickSaleForm';
+
+interface TenderRow {
+  method: PaymentMethod;
+  amount: string;
+  details: Record<string, string>;
+}
+
+// Discount fields are edited as strings so they can be cleared while typing
+interface DiscountField {
+  mode: DiscountMode;
+  value: string;
+}
+
+const ModeToggle: React.FC<{ mode: DiscountMode; onChange: (mode: DiscountMode) => void }> = ({ mode, onChange }) => (
+  <div className="inline-flex rounded-lg border border-gray-200 overflow-hidden text-xs font-medium shrink-0">
+    {(['AMOUNT', 'PERCENT'] as const).map(m => (
+      <button
+        key={m}
+        type="button"
+        onClick={() => onChange(m)}
+        className={`px-2.5 py-1.5 ${mode === m ? 'bg-primary text-white' : 'text-accent-600 hover:bg-gray-50'}`}
+        aria-pressed={mode === m}
+      >{m === 'AMOUNT' ? '₹' : '%'}</button>
+    ))}
+  </div>
+);
 
 interface CartProps {
   cartItems: CartItem[];
-  onUpdateQuantity: (id: string, quantity: number) => void;
-  onRemoveItem: (id: string) => void;
-  onConfirmSale: (orderData: {
-    customerPhone?: string;
-    paymentMethod: 'CASH' | 'UPI';
-    paymentStatus: 'PENDING' | 'PAID';
-    discount?: number;
-    notes?: string;
-  }) => void;
+  onUpdateQuantity: (lineKey: string, quantity: number) => void;
+  onRemoveItem: (lineKey: string) => void;
+  onConfirmSale: (orderData: CheckoutDetails) => Promise<boolean>; // false when the sale was not recorded or queued
+  settings: ShopSettings;
+  promotions?: Promotion[];
+  draft?: CheckoutDraft | null; // form fields restored from the saved cart
+  onDraftChange?: (draft: CheckoutDraft) => void;
+  heldCarts: HeldCart[];
+  onParkCart: (name: string) => void;
+  onResumeCart: (id: string) => void;
+  onDeleteHeldCart: (id: string) => void;
+  stockConflicts?: Record<string, string>; // lines the server could not hold stock for, by line key
+  onAddMiscItem: (input: MiscItemInput) => void;
 }
 
 export const Cart: React.FC<CartProps> = ({
   cartItems,
   onUpdateQuantity,
   onRemoveItem,
-  onConfirmSale
+  onConfirmSale,
+  settings,
+  promotions = [],
+  draft,
+  onDraftChange,
+  heldCarts,
+  onParkCart,
+  onResumeCart,
+  onDeleteHeldCart,
+  stockConflicts = {},
+  onAddMiscItem
 }) => {
   const { show } = useToast();
-  const [customerPhone, setCustomerPhone] = useState('');
-  const [paymentMethod, setPaymentMethod] = useState<'CASH' | 'UPI'>('CASH');
+  const [customerPhone, setCustomerPhone] = useState(draft?.customerPhone ?? '');
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [showBuyer, setShowBuyer] = useState(false);
+  const [buyerGstin, setBuyerGstin] = useState('');
+  const [buyerName, setBuyerName] = useState('');
+  const [loyaltyBalance, setLoyaltyBalance] = useState<number | null>(null);
+  const [redeemPoints, setRedeemPoints] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(draft?.paymentMethod ?? settings.defaultPaymentMethod);
+  const [splitPayment, setSplitPayment] = useState(false);
+  const [paymentDetails, setPaymentDetails] = useState<Record<string, string>>({});
+  const [tenders, setTenders] = useState<TenderRow[]>([]);
+  const [cashReceived, setCashReceived] = useState('');
   const [paymentStatus, setPaymentStatus] = useState<'PENDING' | 'PAID'>('PENDING');
-  const [discount, setDiscount] = useState('');
-  const [notes, setNotes] = useState('');
+  const [discount, setDiscount] = useState(draft?.discount ?? '');
+  const [discountMode, setDiscountMode] = useState<DiscountMode>(draft?.discountMode ?? 'AMOUNT');
+  const [lineDiscountFields, setLineDiscountFields] = useState<Record<string, DiscountField>>({});
+  const [editingLineKey, setEditingLineKey] = useState<string | null>(null);
+  const [approval, setApproval] = useState<(DiscountApproval & { discount: number; cart: string }) | null>(null);
+  const [showApproval, setShowApproval] = useState(false);
+  const [couponCode, setCouponCode] = useState('');
+  const [coupon, setCoupon] = useState<CouponLookup | null>(null);
+  const [isCheckingCoupon, setIsCheckingCoupon] = useState(false);
+  const [showPark, setShowPark] = useState(false);
+  const [showQuickSale, setShowQuickSale] = useState(false);
+  const [parkName, setParkName] = useState('');
+  const [showHeld, setShowHeld] = useState(false);
+  const [confirmDeleteHeldId, setConfirmDeleteHeldId] = useState<string | null>(null);
+  const [notes, setNotes] = useState(draft?.notes ?? '');
   const [showUPIModal, setShowUPIModal] = useState(false);
-  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+  const [upiReference, setUpiReference] = useState('');
+  const [confirmRemoveKey, setConfirmRemoveKey] = useState<string | null>(null);
   
   const subtotal = cartItems.reduce(
     (sum, item) => sum + item.retailPrice * item.cartQuantity,
     0
   );
 
-  const discountAmount = discount ? parseFloat(discount) : 0;
-  const totalAmount = Math.max(0, subtotal - discountAmount);
+  // Re-evaluated every render so happy-hour windows open and close while the cart is on screen
+  const promotionResult = Promotions.evaluate(cartItems, promotions);
+  const promoTotal = promotionResult.total;
+  // Line discounts apply to what is left after promotions; the bill discount to what is left after both
+  const lineDiscounts = cartItems.map((item, index) => {
+    const field = lineDiscountFields[CartStock.lineKey(item)];
+    const base = item.retailPrice * item.cartQuantity - (promotionResult.lineDiscounts[index] || 0);
+    return Discounts.amountOf(field && { mode: field.mode, value: parseFloat(field.value) || 0 }, base);
+  });
+  const lineDiscountTotal = Payments.round(lineDiscounts.reduce((sum, d) => sum + d, 0));
+  const discountAmount = Discounts.amountOf(
+    { mode: discountMode, value: parseFloat(discount) || 0 },
+    Math.max(0, subtotal - promoTotal - lineDiscountTotal)
+  );
+  const manualDiscount = Payments.round(lineDiscountTotal + discountAmount);
+  // Coupons are measured on the eligible lines after promotions and line discounts
+  const lineNets = cartItems.map((item, index) => (
+    item.retailPrice * item.cartQuantity - (promotionResult.lineDiscounts[index] || 0) - lineDiscounts[index]
+  ));
+  const couponPayable = Math.max(0, subtotal - promoTotal - manualDiscount);
+  const couponResult = coupon ? Coupons.evaluate(coupon, cartItems, lineNets, couponPayable) : null;
+  const couponAmount = couponResult?.amount || 0;
+  // Redeemed points act as an extra discount, capped at the balance and the remaining bill
+  const maxRedeemable = loyaltyBalance ? Loyalty.maxRedeemable(loyaltyBalance, Math.max(0, couponPayable - couponAmount), settings) : 0;
+  const pointsRedeemed = Math.min(maxRedeemable, Math.max(0, parseInt(redeemPoints, 10) || 0));
+  const redeemValue = Loyalty.valueOf(pointsRedeemed, settings);
+  // Same engine as EditOrder and the invoice, so the total on screen is the total that gets printed
+  const tax = Tax.compute(
+    cartItems.map((item, index) => ({
+      price: item.retailPrice,
+      qty: item.cartQuantity,
+      rate: Tax.rateOf(item),
+      discount: (promotionResult.lineDiscounts[index] || 0) + lineDiscounts[index],
+    })),
+    discountAmount + couponAmount + redeemValue,
+    Tax.inclusive(settings)
+  );
+  const totalAmount = tax.total;
+  const pointsToEarn = customerPhone.trim() && paymentStatus === 'PAID' ? Loyalty.pointsFor(totalAmount, settings) : 0;
 
-  const totalProfit = cartItems.reduce(
-    (sum, item) => sum + (item.retailPrice - item.wholesalePrice) * item.cartQuantity,
-    0
-  ) - discountAmount;
+  const totalCost = cartItems.reduce((sum, item) => sum + item.wholesalePrice * item.cartQuantity, 0);
+  const totalProfit = Payments.round(subtotal - totalCost - promoTotal - manualDiscount - couponAmount - redeemValue);
 
-  const handleConfirmSale = () => {
-    if (!cartItems.length) {
-      show('Cart is empty. Add items before checkout.', { type: 'warning' });
+  // Coupons are issued by the shop, so like promotions they count against margin but not the discount cap
+  const discountCheck = Discounts.check(
+    { subtotal, cost: totalCost, promotions: promoTotal + couponAmount, manual: manualDiscount, redeemed: redeemValue },
+    settings
+  );
+  const discountViolations = Discounts.violations(discountCheck, settings);
+  const concession = Payments.round(manualDiscount + redeemValue);
+  const cartSignature = Discounts.cartSignature(cartItems.map(item => ({
+    product: item.misc ? undefined : item._id,
+    name: item.misc ? item.name : undefined,
+    size: item.selectedSize,
+    qty: item.cartQuantity,
+    price: item.retailPrice,
+  })));
+  // An approval covers the lines and the discount it was given for; changing the lines or
+  // raising the discount afterwards needs a new one
+  const isApproved = !!approval && approval.cart === cartSignature && concession <= approval.discount;
+  const approvalRequired = Discounts.needsApproval(discountCheck) && !isApproved;
+
+  // Mirror the saved form fields up to App so they outlive this screen and survive a reload
+  useEffect(() => {
+    onDraftChange?.({ customerPhone, discount, discountMode, notes, paymentMethod });
+  }, [customerPhone, discount, discountMode, notes, paymentMethod, onDraftChange]);
+
+  // Look up the loyalty balance once a full phone number (or a directory customer) is attached
+  useEffect(() => {
+    const phone = customer?.phone || customerPhone.trim();
+    setRedeemPoints('');
+    if (!Loyalty.isEnabled(settings) || phone.replace(/\D/g, '').length < 10) {
+      setLoyaltyBalance(null);
       return;
     }
-    const orderData = {
+    const controller = new AbortController();
+    const h = setTimeout(() => {
+      ApiService.getLoyaltyAccount(phone, { signal: controller.signal })
+        .then(account => setLoyaltyBalance(Math.max(0, account?.balance || 0)))
+        .catch((err: ApiError) => {
+          if (err?.code === 'ABORTED') return;
+          // 404 just means the customer has not earned anything yet
+          if (err?.status !== 404) console.error('Failed to load loyalty balance:', err);
+          setLoyaltyBalance(err?.status === 404 ? 0 : null);
+        });
+    }, 300);
+    return () => {
+      clearTimeout(h);
+      controller.abort();
+    };
+  }, [customer, customerPhone, settings]);
+
+  // Points or a coupon can cover the whole bill; there is then nothing to tender
+  const nothingDue = cartItems.length > 0 && totalAmount <= 0;
+
+  // Tenders applied to this sale: the whole total in one method, or the split rows
+  const payments: OrderPayment[] = nothingDue ? [] : splitPayment
+    ? tenders
+      .map(t => ({ method: t.method, amount: Payments.round(parseFloat(t.amount) || 0), details: Tenders.cleanDetails(t.method, t.details) }))
+      .filter(p => p.amount > 0)
+    : [{ method: paymentMethod, amount: totalAmount, details: Tenders.cleanDetails(paymentMethod, paymentDetails) }];
+  const remainingDue = Payments.round(totalAmount - Payments.sum(payments));
+  const cashDue = Payments.sum(payments.filter(p => Tenders.get(p.method).givesChange));
+  const upiDue = Payments.sum(payments.filter(p => Tenders.get(p.method).collectsViaQr));
+  const cashReceivedAmount = cashReceived ? parseFloat(cashReceived) || 0 : 0;
+  const changeDue = cashReceived ? Payments.round(Math.max(0, cashReceivedAmount - cashDue)) : 0;
+
+  const buildOrderData = (status: 'PENDING' | 'PAID', reference?: string, approved = approval): CheckoutDetails => {
+    const tendered = payments.map(p => (Tenders.get(p.method).collectsViaQr && reference ? { ...p, reference } : p));
+    return {
       customerPhone: customerPhone.trim() || undefined,
-      paymentMethod,
-      paymentStatus,
-      discount: discountAmount || undefined,
+      customerId: customer?._id,
+      buyer: buyerGstin.trim() ? { gstin: Gst.normalizeGstin(buyerGstin), name: buyerName.trim() || customer?.name || undefined } : undefined,
+      paymentMethod: Payments.primaryMethod(tendered, paymentMethod),
+      paymentStatus: nothingDue ? 'PAID' : status,
+      paymentReference: reference,
+      payments: !nothingDue && (splitPayment || tendered.some(p => p.details)) ? tendered : undefined,
+      promotions: promotionResult.applied.length ? promotionResult.applied : undefined,
+      lineDiscounts: lineDiscountTotal > 0 ? lineDiscounts : undefined,
+      discount: Payments.round(discountAmount + couponAmount + redeemValue) || undefined,
+      coupon: coupon && couponAmount > 0 ? { couponId: coupon._id, code: coupon.code, amount: couponAmount } : undefined,
+      discountApproval: approved && Discounts.needsApproval(discountCheck)
+        ? { token: approved.token, approvedAt: approved.approvedAt, reason: approved.reason }
+        : undefined,
+      loyaltyPointsRedeemed: pointsRedeemed || undefined,
+      pricesIncludeGst: Tax.inclusive(settings),
+      total: totalAmount,
       notes: notes.trim() || undefined,
     };
+  };
 
-    if (paymentMethod === 'UPI') {
+  const handleApplyCoupon = async () => {
+    const code = Coupons.normalizeCode(couponCode);
+    if (!code) return;
+    setIsCheckingCoupon(true);
+    try {
+      const found = await ApiService.lookupCoupon(code, customerPhone.trim() || undefined);
+      const result = Coupons.evaluate(found, cartItems, lineNets, couponPayable);
+      if (result.error) {
+        show(result.error, { type: 'warning' });
+        return;
+      }
+      setCoupon(found);
+      setCouponCode('');
+      show(`${found.code} applied: −₹${result.amount}`, { type: 'success' });
+    } catch (err) {
+      const error = err as ApiError;
+      show(error.status === 404 ? `Coupon ${code} not found` : error.message || 'Failed to check coupon', { type: 'error' });
+    } finally {
+      setIsCheckingCoupon(false);
+    }
+  };
+
+  // Usage counts may have moved since the code was applied, so the server copy is checked again
+  const recheckCoupon = async (): Promise<string | null> => {
+    if (!coupon) return null;
+    setIsCheckingCoupon(true);
+    try {
+      const fresh = await ApiService.lookupCoupon(coupon.code, customerPhone.trim() || undefined);
+      const result = Coupons.evaluate(fresh, cartItems, lineNets, couponPayable);
+      setCoupon(fresh);
+      if (result.error) return result.error;
+      if (result.amount !== couponAmount) return `${fresh.code} now takes ₹${result.amount} off; check the total and confirm again`;
+      return null;
+    } catch (err) {
+      // Offline sales are queued and the server checks the coupon again when they sync
+      if (OrderOutbox.isOfflineError(err)) return couponResult?.error || null;
+      return (err as ApiError).message || 'Failed to check coupon';
+    } finally {
+      setIsCheckingCoupon(false);
+    }
+  };
+
+  const handleConfirmSale = async () => {
+    if (!cartItems.length) {
+      show('Cart is empty. Add items before checkout.', { type: 'warning' });
+      return;
+    }
+    if (buyerGstin.trim() && !Gst.isValidGstin(buyerGstin)) {
+      show('Business GSTIN must be a valid 15-character GST number', { type: 'warning' });
+      return;
+    }
+    const shortLines = StockLevels.shortLines(cartItems);
+    if (shortLines.length) {
+      show(`Not enough stock for ${shortLines.join(', ')}`, { type: 'warning' });
+      return;
+    }
+    const stockConflict = cartItems.map(item => stockConflicts[CartStock.lineKey(item)]).find(Boolean);
+    if (stockConflict) {
+      show(stockConflict, { type: 'warning' });
+      return;
+    }
+    if (splitPayment && remainingDue !== 0) {
+      show(remainingDue > 0 ? `₹${remainingDue} still to be allocated` : `Split exceeds total by ₹${Math.abs(remainingDue)}`, { type: 'warning' });
+      return;
+    }
+    const captureError = payments.map(p => Tenders.validate(p)).find(Boolean);
+    if (captureError) {
+      show(captureError, { type: 'warning' });
+      return;
+    }
+    if (cashReceived && cashReceivedAmount < cashDue) {
+      show(`Cash received is less than the ₹${cashDue} due in cash`, { type: 'warning' });
+      return;
+    }
+    const couponError = await recheckCoupon();
+    if (couponError) {
+      show(couponError, { type: 'warning' });
+      return;
+    }
+    if (approvalRequired) {
+      setShowApproval(true);
+      return;
+    }
+    startPayment();
+  };
+
+  // The form is only cleared once the sale is recorded, so a failed attempt can be retried as it was
+  const startPayment = async (approved = approval) => {
+    if (upiDue > 0) {
+      // A retry after a failed save keeps the reference the customer may already have paid against
+      setUpiReference(prev => prev || UPIIntent.createReference());
       setShowUPIModal(true);
-    } else {
-      onConfirmSale(orderData);
+    } else if (await onConfirmSale(buildOrderData(paymentStatus, undefined, approved))) {
       resetForm();
     }
   };
 
-  const handleUPIPaymentReceived = () => {
-    const orderData = {
-      customerPhone: customerPhone.trim() || undefined,
-      paymentMethod: 'UPI' as const,
-      paymentStatus: 'PAID' as const,
-      discount: discountAmount || undefined,
-      notes: notes.trim() || undefined,
-    };
-    
+  const handleApproved = (signed: DiscountApproval) => {
+    const granted = { ...signed, discount: concession, cart: cartSignature };
+    setApproval(granted);
+    setShowApproval(false);
+    startPayment(granted);
+  };
+
+  const updateLineDiscount = (item: CartItem, patch: Partial<DiscountField>) => {
+    const key = CartStock.lineKey(item);
+    setLineDiscountFields(prev => ({ ...prev, [key]: { ...(prev[key] || { mode: 'AMOUNT', value: '' }), ...patch } }));
+  };
+
+  const clearLineDiscount = (item: CartItem) => {
+    const key = CartStock.lineKey(item);
+    setLineDiscountFields(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+    setEditingLineKey(null);
+  };
+
+  const handleUPIPaymentReceived = async () => {
     setShowUPIModal(false);
-    onConfirmSale(orderData);
+    if (await onConfirmSale(buildOrderData('PAID', upiReference))) resetForm();
+  };
+
+  const toggleSplitPayment = () => {
+    if (!splitPayment) {
+      setTenders([{ method: 'CASH', amount: '', details: {} }, { method: 'UPI', amount: '', details: {} }]);
+    }
+    setSplitPayment(v => !v);
+  };
+
+  const updateTender = (index: number, patch: Partial<TenderRow>) => {
+    setTenders(prev => prev.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+  };
+
+  // Puts whatever is still unallocated onto this row
+  const fillRemaining = (index: number) => {
+    const others = tenders.reduce((sum, t, i) => (i === index ? sum : sum + (parseFloat(t.amount) || 0)), 0);
+    updateTender(index, { amount: String(Payments.round(Math.max(0, totalAmount - others))) });
+  };
+
+  const handleAddMiscItem = (input: MiscItemInput) => {
+    onAddMiscItem(input);
+    setShowQuickSale(false);
+    show(`${input.description.trim()} added`, { type: 'success' });
+  };
+
+  const handlePark = () => {
+    onParkCart(parkName.trim() || customer?.name || customerPhone.trim());
+    setParkName('');
+    setShowPark(false);
+    resetForm();
+  };
+
+  // The resumed cart replaces this one (App parks the current lines first), so the form starts fresh
+  const handleResume = (id: string) => {
     resetForm();
+    setShowHeld(false);
+    onResumeCart(id);
   };
 
   const resetForm = () => {
     setCustomerPhone('');
+    setCustomer(null);
+    setShowBuyer(false);
+    setBuyerGstin('');
+    setBuyerName('');
+    setRedeemPoints('');
     setDiscount('');
+    setDiscountMode('AMOUNT');
+    setLineDiscountFields({});
+    setEditingLineKey(null);
+    setApproval(null);
+    setCoupon(null);
+    setCouponCode('');
     setNotes('');
-    setPaymentMethod('CASH');
+    setPaymentMethod(settings.defaultPaymentMethod);
     setPaymentStatus('PAID');
+    setSplitPayment(false);
+    setTenders([]);
+    setPaymentDetails({});
+    setCashReceived('');
+    setUpiReference('');
   };
 
   if (cartItems.length === 0) {
@@ -98,7 +445,36 @@ export const Cart: React.FC<CartProps> = ({
           </div>
           <h2 className="font-display text-xl font-semibold text-gray-900 mb-2">Your cart is empty</h2>
           <p className="text-accent-400">Add some products to get started</p>
+          {showQuickSale ? (
+            <div className="mt-8 w-full max-w-md text-left">
+              <QuickSaleForm inclusive={Tax.inclusive(settings)} onAdd={handleAddMiscItem} onCancel={() => setShowQuickSale(false)} />
+            </div>
+          ) : (
+            <button
+              onClick={() => setShowQuickSale(true)}
+              className="mt-6 inline-flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-medium border border-gray-200 text-accent-600 hover:bg-gray-50"
+            >
+              <PackagePlus className="h-4 w-4" />
+              Quick sale
+            </button>
+          )}
+          {heldCarts.length > 0 && (
+            <div className="mt-8 w-full max-w-md text-left">
+              <HeldCartsPanel heldCarts={heldCarts} onResume={handleResume} onDelete={setConfirmDeleteHeldId} />
+            </div>
+          )}
         </div>
+        <ConfirmDialog
+          isOpen={!!confirmDeleteHeldId}
+          title="Discard held cart?"
+          message="The parked items will be removed. Stock is not affected."
+          confirmText="Discard"
+          onCancel={() => setConfirmDeleteHeldId(null)}
+          onConfirm={() => {
+            if (confirmDeleteHeldId) onDeleteHeldCart(confirmDeleteHeldId);
+            setConfirmDeleteHeldId(null);
+          }}
+        />
       </div>
     );
   }
@@ -113,6 +489,34 @@ export const Cart: React.FC<CartProps> = ({
               <h1 className="font-display text-2xl font-semibold text-gray-900">Cart</h1>
               <p className="text-accent-400 text-sm mt-1">{cartItems.reduce((s,i)=>s+i.cartQuantity,0)} items</p>
             </div>
+            <div className="flex items-center gap-2 lg:ml-auto lg:mr-6">
+              <button
+                onClick={() => { setShowQuickSale(v => !v); setShowPark(false); setShowHeld(false); }}
+                className={`inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-medium border ${showQuickSale ? 'border-primary bg-primary/5 text-primary' : 'border-gray-200 text-accent-600 hover:bg-gray-50'}`}
+                aria-pressed={showQuickSale}
+              >
+                <PackagePlus className="h-4 w-4" />
+                Quick sale
+              </button>
+              <button
+                onClick={() => { setShowPark(v => !v); setShowHeld(false); setShowQuickSale(false); }}
+                className="inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-medium border border-gray-200 text-accent-600 hover:bg-gray-50"
+                aria-pressed={showPark}
+              >
+                <PauseCircle className="h-4 w-4" />
+                Park
+              </button>
+              {heldCarts.length > 0 && (
+                <button
+                  onClick={() => { setShowHeld(v => !v); setShowPark(false); setShowQuickSale(false); }}
+                  className={`inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-medium border ${showHeld ? 'border-primary bg-primary/5 text-primary' : 'border-gray-200 text-accent-600 hover:bg-gray-50'}`}
+                  aria-pressed={showHeld}
+                >
+                  <Inbox className="h-4 w-4" />
+                  Held ({heldCarts.length})
+                </button>
+              )}
+            </div>
             {/* Desktop quick total */}
             <div className="hidden lg:flex items-center gap-6 pr-2">
               <div className="text-right">
@@ -121,32 +525,78 @@ export const Cart: React.FC<CartProps> = ({
               </div>
               <button
                 onClick={handleConfirmSale}
-                disabled={totalAmount <= 0}
+                disabled={!cartItems.length || isCheckingCoupon}
                 className="inline-flex items-center gap-2 px-6 py-3 rounded-xl bg-primary text-white font-medium shadow-sm hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Check className="h-5 w-5" />
-                <span>{paymentMethod === 'UPI' ? 'Show UPI QR' : 'Complete Sale'}</span>
+                <span>{upiDue > 0 ? 'Show UPI QR' : 'Complete Sale'}</span>
               </button>
             </div>
           </div>
         </div>
 
         <div className="px-5 lg:px-8 py-6 pb-40 lg:pb-24">
+          {showPark && (
+            <div className="mb-6 bg-white border border-gray-100 rounded-3xl p-5 shadow-sm flex flex-col sm:flex-row sm:items-center gap-3">
+              <input
+                type="text"
+                value={parkName}
+                onChange={(e) => setParkName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handlePark(); }}
+                placeholder={customer?.name || customerPhone.trim() || 'Name this cart (e.g. customer in trial room)'}
+                className="input-field flex-1"
+                autoFocus
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={handlePark}
+                  className="inline-flex items-center gap-2 px-4 py-3 rounded-xl bg-primary text-white text-sm font-medium shadow-sm hover:bg-primary/90"
+                >
+                  <PauseCircle className="h-4 w-4" />
+                  Park cart
+                </button>
+                <button
+                  onClick={() => setShowPark(false)}
+                  className="px-4 py-3 rounded-xl text-sm font-medium border border-gray-200 text-accent-600 hover:bg-gray-50"
+                >Cancel</button>
+              </div>
+            </div>
+          )}
+          {showQuickSale && (
+            <div className="mb-6">
+              <QuickSaleForm inclusive={Tax.inclusive(settings)} onAdd={handleAddMiscItem} onCancel={() => setShowQuickSale(false)} />
+            </div>
+          )}
+          {showHeld && (
+            <div className="mb-6">
+              <HeldCartsPanel heldCarts={heldCarts} onResume={handleResume} onDelete={setConfirmDeleteHeldId} />
+              <p className="text-xs text-accent-400 mt-2 px-1">Resuming parks the current cart so nothing is lost.</p>
+            </div>
+          )}
           <div className="grid grid-cols-1 xl:grid-cols-12 gap-8">
             {/* Items List */}
             <div className="space-y-4 xl:col-span-7">
-              {cartItems.map(item => {
-                const lineProfit = (item.retailPrice - item.wholesalePrice) * item.cartQuantity;
+              {cartItems.map((item, index) => {
+                const linePromo = promotionResult.lineDiscounts[index] || 0;
+                const linePromos = promotionResult.applied.filter(a => a.itemIndex === index);
+                const lineDiscount = lineDiscounts[index];
+                const lineProfit = Payments.round((item.retailPrice - item.wholesalePrice) * item.cartQuantity - linePromo - lineDiscount);
+                const key = CartStock.lineKey(item);
+                const discountField = lineDiscountFields[key];
                 return (
-                  <div key={item._id} className="bg-white border border-gray-100 rounded-3xl p-5 shadow-sm hover:shadow transition-shadow">
+                  <div key={key} className="bg-white border border-gray-100 rounded-3xl p-5 shadow-sm hover:shadow transition-shadow">
                     <div className="flex justify-between items-start mb-4">
                       <div className="flex-1 min-w-0">
                         <h3 className="font-display font-medium text-gray-900 text-lg truncate">{item.name}</h3>
-                        <p className="text-accent-400 text-sm mt-0.5">Size: {item.selectedSize}</p>
+                        {item.misc ? (
+                          <p className="text-accent-400 text-sm mt-0.5">Quick sale · GST {item.gst}%{item.hsnSac && <span className="text-accent-300"> · HSN {item.hsnSac}</span>}</p>
+                        ) : (
+                          <p className="text-accent-400 text-sm mt-0.5">Size: {item.selectedSize}{item.selectedSku && <span className="text-accent-300"> · SKU {item.selectedSku}</span>}</p>
+                        )}
                         <p className="text-primary font-semibold mt-1 text-sm">₹{item.retailPrice}</p>
                       </div>
                       <button
-                        onClick={() => setConfirmRemoveId(item._id)}
+                        onClick={() => setConfirmRemoveKey(key)}
                         className="p-2 text-accent-400 hover:text-primary hover:bg-red-50 rounded-lg transition-colors"
                         aria-label="Remove item"
                       >
@@ -156,7 +606,7 @@ export const Cart: React.FC<CartProps> = ({
                     <div className="flex items-center justify-between gap-4 flex-wrap">
                       <div className="flex items-center bg-gray-50 rounded-xl p-1">
                         <button
-                          onClick={() => onUpdateQuantity(item._id, item.cartQuantity - 1)}
+                          onClick={() => onUpdateQuantity(key, item.cartQuantity - 1)}
                           disabled={item.cartQuantity <= 1}
                           className="p-2 rounded-lg hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
                           aria-label="Decrease quantity"
@@ -165,19 +615,79 @@ export const Cart: React.FC<CartProps> = ({
                         </button>
                         <span className="font-semibold text-base w-10 text-center tabular-nums">{item.cartQuantity}</span>
                         <button
-                          onClick={() => onUpdateQuantity(item._id, item.cartQuantity + 1)}
-                          disabled={item.cartQuantity >= item.quantity}
+                          onClick={() => onUpdateQuantity(key, item.cartQuantity + 1)}
+                          disabled={item.cartQuantity >= CartStock.stockLimit(item)}
                           className="p-2 rounded-lg hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
                           aria-label="Increase quantity"
                         >
                           <Plus className="h-4 w-4" />
                         </button>
                       </div>
+                      {item.cartQuantity >= CartStock.stockLimit(item) && (
+                        <span className={`text-xs ${item.cartQuantity > item.quantity ? 'text-primary font-medium' : 'text-accent-400'}`}>
+                          Only {item.quantity} {item.cartQuantity > item.quantity ? 'left in' : 'in'} size {item.selectedSize}
+                        </span>
+                      )}
                       <div className="text-right ml-auto">
-                        <p className="font-display font-semibold text-lg text-gray-900">₹{item.retailPrice * item.cartQuantity}</p>
-                        <p className="text-emerald-600 text-xs font-medium mt-0.5">+₹{lineProfit} profit</p>
+                        {linePromo + lineDiscount > 0 && <p className="text-accent-400 text-xs line-through">₹{item.retailPrice * item.cartQuantity}</p>}
+                        <p className="font-display font-semibold text-lg text-gray-900">₹{Payments.round(item.retailPrice * item.cartQuantity - linePromo - lineDiscount)}</p>
+                        <p className={`text-xs font-medium mt-0.5 ${lineProfit < 0 ? 'text-primary' : 'text-emerald-600'}`}>
+                          {lineProfit < 0 ? `−₹${Math.abs(lineProfit)} below cost` : `+₹${lineProfit} profit`}
+                        </p>
                       </div>
                     </div>
+                    {stockConflicts[key] && (
+                      <p className="mt-3 flex items-start gap-1.5 text-xs text-primary bg-red-50 rounded-lg px-3 py-2">
+                        <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                        <span>{stockConflicts[key]} <span className="text-accent-500">Reduce the quantity or remove this item.</span></span>
+                      </p>
+                    )}
+                    {editingLineKey === key ? (
+                      <div className="mt-3 flex items-center gap-2">
+                        <ModeToggle mode={discountField?.mode || 'AMOUNT'} onChange={(mode) => updateLineDiscount(item, { mode })} />
+                        <input
+                          type="number"
+                          min={0}
+                          max={discountField?.mode === 'PERCENT' ? 100 : undefined}
+                          value={discountField?.value || ''}
+                          onChange={(e) => updateLineDiscount(item, { value: e.target.value })}
+                          placeholder="Line discount"
+                          className="input-compact flex-1"
+                          autoFocus
+                        />
+                        <button
+                          onClick={() => setEditingLineKey(null)}
+                          className="px-2.5 py-2 rounded-lg text-xs font-medium border border-gray-200 text-accent-600 hover:bg-gray-50"
+                        >Done</button>
+                        <button
+                          onClick={() => clearLineDiscount(item)}
+                          className="p-2 text-accent-400 hover:text-primary rounded-lg"
+                          aria-label="Clear line discount"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => setEditingLineKey(key)}
+                        className="mt-3 inline-flex items-center gap-1 text-xs font-medium text-accent-500 hover:text-accent-700"
+                      >
+                        <Percent className="h-3.5 w-3.5" />
+                        {lineDiscount > 0 && discountField
+                          ? `Discount ${Discounts.describe({ mode: discountField.mode, value: parseFloat(discountField.value) || 0 })} −₹${lineDiscount}`
+                          : 'Add discount'}
+                      </button>
+                    )}
+                    {linePromos.length > 0 && (
+                      <div className="mt-3 flex flex-wrap gap-1.5">
+                        {linePromos.map(promo => (
+                          <span key={promo.promotionId} className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-secondary/20 text-xs font-medium text-accent-700">
+                            <Tag className="h-3 w-3" />
+                            {promo.name} −₹{promo.amount}
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -189,61 +699,189 @@ export const Cart: React.FC<CartProps> = ({
                 <div className="grid md:grid-cols-2 gap-5">
                   {/* Customer */}
                   <div className="md:col-span-2">
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Customer Phone (optional)</label>
-                    <div className="relative">
-                      <Phone className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
-                      <input
-                        type="tel"
-                        value={customerPhone}
-                        onChange={(e) => setCustomerPhone(e.target.value)}
-                        placeholder="Phone number"
-                        className="input-fieldIcon pl-12"
-                      />
-                    </div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Customer (optional)</label>
+                    <CustomerPicker
+                      phone={customerPhone}
+                      onPhoneChange={setCustomerPhone}
+                      customer={customer}
+                      onSelect={setCustomer}
+                    />
+                    {showBuyer ? (
+                      <div className="mt-2 grid grid-cols-2 gap-2">
+                        <input
+                          type="text"
+                          value={buyerGstin}
+                          onChange={(e) => setBuyerGstin(e.target.value.toUpperCase())}
+                          placeholder="Business GSTIN"
+                          className="input-compact"
+                          maxLength={15}
+                          autoFocus
+                        />
+                        <input
+                          type="text"
+                          value={buyerName}
+                          onChange={(e) => setBuyerName(e.target.value)}
+                          placeholder={customer?.name || 'Legal name'}
+                          className="input-compact"
+                        />
+                        {Gst.isValidGstin(buyerGstin) && (
+                          <p className="col-span-2 text-xs text-accent-400">
+                            Place of supply {Gst.describeState(Gst.stateOf(buyerGstin))} · {Gst.isInterState(settings.gstin, Gst.stateOf(buyerGstin)) ? 'IGST' : 'CGST + SGST'}
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => setShowBuyer(true)}
+                        className="mt-2 text-xs font-medium text-accent-500 hover:text-accent-700"
+                      >+ Business invoice (GSTIN)</button>
+                    )}
+                    {loyaltyBalance !== null && (
+                      <div className="mt-2 flex items-center gap-2">
+                        <span className="inline-flex items-center gap-1.5 text-sm text-accent-600 shrink-0">
+                          <Star className="h-4 w-4 text-secondary" />
+                          {loyaltyBalance} pts
+                          <span className="text-accent-400">(₹{Loyalty.valueOf(loyaltyBalance, settings)})</span>
+                        </span>
+                        {maxRedeemable > 0 && (
+                          <>
+                            <input
+                              type="number"
+                              min={0}
+                              max={maxRedeemable}
+                              value={redeemPoints}
+                              onChange={(e) => setRedeemPoints(e.target.value)}
+                              placeholder="Points to redeem"
+                              className="input-compact flex-1"
+                            />
+                            <button
+                              onClick={() => setRedeemPoints(String(maxRedeemable))}
+                              className="px-2.5 py-2 rounded-lg text-xs font-medium border border-gray-200 text-accent-600 hover:bg-gray-50"
+                            >Max</button>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
-                  {/* Payment Method */}
-                  <div>
-                    <p className="text-xs font-semibold uppercase tracking-wide text-accent-400 mb-2">Payment Method</p>
-                    <div className="flex gap-2">
-                      {[
-                        { label: 'Cash', value: 'CASH' as const, icon: <Banknote className="h-4 w-4" /> },
-                        { label: 'UPI', value: 'UPI' as const, icon: <CreditCard className="h-4 w-4" /> }
-                      ].map(btn => {
-                        const active = paymentMethod === btn.value;
-                        return (
-                          <button
-                            key={btn.value}
-                            onClick={() => setPaymentMethod(btn.value)}
-                            className={`flex-1 inline-flex items-center justify-center gap-2 px-3 py-3 rounded-xl border text-sm font-medium transition-all ${active ? 'border-primary bg-primary/5 text-primary shadow-sm' : 'border-gray-200 hover:border-gray-300 text-accent-600'}`}
-                            aria-pressed={active}
-                          >{btn.icon}{btn.label}</button>
-                        );
-                      })}
+                  {nothingDue ? (
+                    <div className="md:col-span-2 rounded-xl bg-green-50 px-3 py-2 text-sm text-green-700">
+                      Nothing to collect: the discounts cover the whole bill.
                     </div>
-                  </div>
-                  {/* Payment Status */}
-                  <div>
-                    <p className="text-xs font-semibold uppercase tracking-wide text-accent-400 mb-2">Payment Status</p>
-                    <div className="flex gap-2">
-                      {[
-                        { label: 'Pending', value: 'PENDING' as const },
-                        { label: 'Paid', value: 'PAID' as const }
-                      ].map(btn => {
-                        const active = paymentStatus === btn.value;
-                        return (
+                  ) : (
+                    <>
+                    {/* Payment Method */}
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-accent-400">Payment Method</p>
+                        <button
+                          onClick={toggleSplitPayment}
+                          className={`inline-flex items-center gap-1 text-xs font-medium ${splitPayment ? 'text-primary' : 'text-accent-500 hover:text-accent-700'}`}
+                          aria-pressed={splitPayment}
+                        >
+                          <Split className="h-3.5 w-3.5" />
+                          Split
+                        </button>
+                      </div>
+                      <div className={`grid grid-cols-2 gap-2 ${splitPayment ? 'opacity-40 pointer-events-none' : ''}`}>
+                        {Tenders.list().map(tender => {
+                          const active = paymentMethod === tender.method;
+                          const Icon = tender.icon;
+                          return (
+                            <button
+                              key={tender.method}
+                              onClick={() => { setPaymentMethod(tender.method); setPaymentDetails({}); }}
+                              className={`inline-flex items-center justify-center gap-2 px-3 py-3 rounded-xl border text-sm font-medium transition-all ${active ? 'border-primary bg-primary/5 text-primary shadow-sm' : 'border-gray-200 hover:border-gray-300 text-accent-600'}`}
+                              aria-pressed={active}
+                            ><Icon className="h-4 w-4" />{tender.label}</button>
+                          );
+                        })}
+                      </div>
+                      {!splitPayment && (
+                        <div className="mt-2">
+                          <TenderCapture method={paymentMethod} details={paymentDetails} onChange={setPaymentDetails} />
+                        </div>
+                      )}
+                    </div>
+                    {/* Split tenders */}
+                    {splitPayment && (
+                      <div className="md:col-span-2 rounded-2xl border border-gray-100 p-4 space-y-3">
+                        {tenders.map((tender, index) => (
+                          <div key={index} className="space-y-2">
+                            <div className="flex items-center gap-2">
+                              <select
+                                value={tender.method}
+                                onChange={(e) => updateTender(index, { method: e.target.value as PaymentMethod, details: {} })}
+                                className="input-compact w-32"
+                                aria-label="Tender"
+                              >
+                                {Tenders.list().map(t => <option key={t.method} value={t.method}>{t.label}</option>)}
+                              </select>
+                              <input
+                                type="number"
+                                min={0}
+                                value={tender.amount}
+                                onChange={(e) => updateTender(index, { amount: e.target.value })}
+                                placeholder="Amount"
+                                className="input-compact flex-1"
+                              />
+                              <button
+                                onClick={() => fillRemaining(index)}
+                                className="px-2.5 py-2 rounded-lg text-xs font-medium border border-gray-200 text-accent-600 hover:bg-gray-50"
+                              >Rest</button>
+                              {tenders.length > 1 && (
+                                <button
+                                  onClick={() => setTenders(prev => prev.filter((_, i) => i !== index))}
+                                  className="p-2 text-accent-400 hover:text-primary rounded-lg"
+                                  aria-label="Remove tender"
+                                >
+                                  <X className="h-4 w-4" />
+                                </button>
+                              )}
+                            </div>
+                            <TenderCapture method={tender.method} details={tender.details} onChange={(details) => updateTender(index, { details })} />
+                          </div>
+                        ))}
+                        <div className="flex items-center justify-between text-xs">
                           <button
-                            key={btn.value}
-                            onClick={() => setPaymentStatus(btn.value)}
-                            className={`flex-1 px-3 py-3 rounded-xl border text-sm font-medium transition-all ${active ? (btn.value==='PENDING' ? 'border-secondary bg-secondary/10 text-secondary/80' : 'border-green-500 bg-green-50 text-green-700') : 'border-gray-200 hover:border-gray-300 text-accent-600'}`}
-                            aria-pressed={active}
-                          >{btn.label}</button>
-                        );
-                      })}
+                            onClick={() => setTenders(prev => [...prev, { method: 'CASH', amount: '', details: {} }])}
+                            className="inline-flex items-center gap-1 font-medium text-accent-600 hover:text-accent-800"
+                          >
+                            <Plus className="h-3.5 w-3.5" /> Add tender
+                          </button>
+                          <span className={remainingDue === 0 ? 'text-green-600 font-medium' : 'text-primary font-medium'}>
+                            {remainingDue === 0 ? 'Fully allocated' : remainingDue > 0 ? `₹${remainingDue} remaining` : `₹${Math.abs(remainingDue)} over`}
+                          </span>
+                        </div>
+                      </div>
+                    )}
+                    {/* Payment Status */}
+                    <div>
+                      <p className="text-xs font-semibold uppercase tracking-wide text-accent-400 mb-2">Payment Status</p>
+                      <div className="flex gap-2">
+                        {[
+                          { label: 'Pending', value: 'PENDING' as const },
+                          { label: 'Paid', value: 'PAID' as const }
+                        ].map(btn => {
+                          const active = paymentStatus === btn.value;
+                          return (
+                            <button
+                              key={btn.value}
+                              onClick={() => setPaymentStatus(btn.value)}
+                              className={`flex-1 px-3 py-3 rounded-xl border text-sm font-medium transition-all ${active ? (btn.value==='PENDING' ? 'border-secondary bg-secondary/10 text-secondary/80' : 'border-green-500 bg-green-50 text-green-700') : 'border-gray-200 hover:border-gray-300 text-accent-600'}`}
+                              aria-pressed={active}
+                            >{btn.label}</button>
+                          );
+                        })}
+                      </div>
                     </div>
-                  </div>
+                    </>
+                  )}
                   {/* Discount */}
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Discount (₹)</label>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-gray-700">Bill Discount</label>
+                      <ModeToggle mode={discountMode} onChange={setDiscountMode} />
+                    </div>
                     <div className="relative">
                       <Percent className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
                       <input
@@ -252,11 +890,69 @@ export const Cart: React.FC<CartProps> = ({
                         onChange={(e) => setDiscount(e.target.value)}
                         placeholder="0"
                         min={0}
-                        max={subtotal}
+                        max={discountMode === 'PERCENT' ? 100 : subtotal}
                         className="input-fieldIcon pl-12"
                       />
                     </div>
                   </div>
+                  {/* Coupon */}
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Coupon</label>
+                    {coupon ? (
+                      <div className={`flex items-center justify-between rounded-xl border px-3 py-2 text-sm ${couponResult?.error ? 'border-primary/30 bg-red-50' : 'border-primary/20 bg-primary/5'}`}>
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 font-mono">{coupon.code}</p>
+                          <p className={`text-xs ${couponResult?.error ? 'text-primary' : 'text-accent-500'}`}>
+                            {couponResult?.error || `${Coupons.describe(coupon)} · −₹${couponAmount}`}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => setCoupon(null)}
+                          className="p-1.5 text-accent-400 hover:text-primary rounded-lg"
+                          aria-label="Remove coupon"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <div className="relative flex-1">
+                          <TicketPercent className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+                          <input
+                            type="text"
+                            value={couponCode}
+                            onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleApplyCoupon(); }}
+                            placeholder="Coupon code"
+                            className="input-fieldIcon pl-12 font-mono"
+                            autoComplete="off"
+                          />
+                        </div>
+                        <button
+                          onClick={handleApplyCoupon}
+                          disabled={isCheckingCoupon || !couponCode.trim()}
+                          className="px-4 py-3 rounded-xl text-sm font-medium border border-gray-200 text-accent-600 hover:bg-gray-50 disabled:opacity-50"
+                        >{isCheckingCoupon ? 'Checking...' : 'Apply'}</button>
+                      </div>
+                    )}
+                  </div>
+                  {/* Cash tendered */}
+                  {cashDue > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Cash Received (₹)</label>
+                      <div className="relative">
+                        <Banknote className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+                        <input
+                          type="number"
+                          value={cashReceived}
+                          onChange={(e) => setCashReceived(e.target.value)}
+                          placeholder={String(cashDue)}
+                          min={0}
+                          className="input-fieldIcon pl-12"
+                        />
+                      </div>
+                    </div>
+                  )}
                   {/* Notes */}
                   <div className="md:col-span-2">
                     <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
@@ -275,19 +971,37 @@ export const Cart: React.FC<CartProps> = ({
                 {/* Summary Inline (desktop hidden footer elsewhere on mobile) */}
                 <div className="mt-4 rounded-2xl bg-gray-50 p-5 space-y-3">
                   <div className="flex justify-between text-sm"><span className="text-accent-500">Subtotal</span><span className="font-medium">₹{subtotal}</span></div>
-                  {discountAmount > 0 && <div className="flex justify-between text-sm"><span className="text-accent-500">Discount</span><span className="font-medium text-primary">-₹{discountAmount}</span></div>}
-                  <div className="flex justify-between text-sm"><span className="text-accent-500">Profit</span><span className="font-medium text-green-600">₹{Math.max(0,totalProfit)}</span></div>
+                  {Promotions.totalsByName(promotionResult.applied).map(promo => (
+                    <div key={promo.name} className="flex justify-between text-sm"><span className="text-accent-500">{promo.name}</span><span className="font-medium text-primary">-₹{promo.amount}</span></div>
+                  ))}
+                  {lineDiscountTotal > 0 && <div className="flex justify-between text-sm"><span className="text-accent-500">Line discounts</span><span className="font-medium text-primary">-₹{lineDiscountTotal}</span></div>}
+                  {discountAmount > 0 && <div className="flex justify-between text-sm"><span className="text-accent-500">Discount{discountMode === 'PERCENT' ? ` (${parseFloat(discount)}%)` : ''}</span><span className="font-medium text-primary">-₹{discountAmount}</span></div>}
+                  {couponAmount > 0 && coupon && <div className="flex justify-between text-sm"><span className="text-accent-500">Coupon {coupon.code}</span><span className="font-medium text-primary">-₹{couponAmount}</span></div>}
+                  {redeemValue > 0 && <div className="flex justify-between text-sm"><span className="text-accent-500">Points ({pointsRedeemed})</span><span className="font-medium text-primary">-₹{redeemValue}</span></div>}
+                  {tax.gst > 0 && <div className="flex justify-between text-sm"><span className="text-accent-500">GST{Tax.inclusive(settings) ? ' (included)' : ''}</span><span className="font-medium">{Tax.inclusive(settings) ? '' : '+'}₹{tax.gst}</span></div>}
+                  {splitPayment && payments.map((p, i) => (
+                    <div key={i} className="flex justify-between text-sm"><span className="text-accent-500">{Tenders.label(p.method)}</span><span className="font-medium">₹{p.amount}</span></div>
+                  ))}
+                  {changeDue > 0 && <div className="flex justify-between text-sm"><span className="text-accent-500">Change Due</span><span className="font-semibold text-gray-900">₹{changeDue}</span></div>}
+                  {pointsToEarn > 0 && <div className="flex justify-between text-sm"><span className="text-accent-500">Points to earn</span><span className="font-medium">+{pointsToEarn}</span></div>}
+                  <div className="flex justify-between text-sm"><span className="text-accent-500">Profit</span><span className={`font-medium ${totalProfit < 0 ? 'text-primary' : 'text-green-600'}`}>₹{totalProfit}</span></div>
+                  {discountViolations.length > 0 && (
+                    <div className={`rounded-xl px-3 py-2 text-xs flex gap-2 ${isApproved ? 'bg-green-50 text-green-700' : 'bg-secondary/10 text-accent-700'}`}>
+                      <ShieldAlert className="h-4 w-4 shrink-0" />
+                      <span>{discountViolations.join(' · ')} — {isApproved ? 'approved by manager' : 'manager PIN needed at checkout'}</span>
+                    </div>
+                  )}
                   <div className="border-t border-gray-200 pt-3 flex items-center justify-between">
                     <span className="font-semibold text-gray-900">Total</span>
                     <span className="font-display text-xl font-semibold text-primary">₹{totalAmount}</span>
                   </div>
                   <button
                     onClick={handleConfirmSale}
-                    disabled={totalAmount <= 0}
+                    disabled={!cartItems.length || isCheckingCoupon}
                     className="hidden lg:flex w-full mt-2 items-center justify-center gap-2 px-5 py-3 rounded-xl bg-primary text-white font-medium shadow-sm hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Check className="h-5 w-5" />
-                    <span>{paymentMethod === 'UPI' ? 'Show UPI QR' : 'Complete Sale'}</span>
+                    <span>{upiDue > 0 ? 'Show UPI QR' : 'Complete Sale'}</span>
                   </button>
                 </div>
               </div>
@@ -304,11 +1018,11 @@ export const Cart: React.FC<CartProps> = ({
             </div>
             <button
               onClick={handleConfirmSale}
-              disabled={totalAmount <= 0}
+              disabled={!cartItems.length || isCheckingCoupon}
               className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-primary text-white font-medium shadow-sm hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Check className="h-5 w-5" />
-              <span>{paymentMethod === 'UPI' ? 'UPI QR' : 'Complete'}</span>
+              <span>{upiDue > 0 ? 'UPI QR' : 'Complete'}</span>
             </button>
           </div>
         </div>
@@ -318,18 +1032,42 @@ export const Cart: React.FC<CartProps> = ({
         isOpen={showUPIModal}
         onClose={() => setShowUPIModal(false)}
         onReceived={handleUPIPaymentReceived}
-        amount={totalAmount}
+        amount={upiDue}
+        reference={upiReference}
+        vpa={settings.upiVpa}
+        payeeName={settings.shopName}
+      />
+
+      <ManagerApproval
+        isOpen={showApproval}
+        reasons={discountViolations}
+        settings={settings}
+        request={{ reason: discountViolations.join('; '), discount: concession, cart: cartSignature }}
+        onApproved={handleApproved}
+        onCancel={() => setShowApproval(false)}
+      />
+
+      <ConfirmDialog
+        isOpen={!!confirmDeleteHeldId}
+        title="Discard held cart?"
+        message="The parked items will be removed. Stock is not affected."
+        confirmText="Discard"
+        onCancel={() => setConfirmDeleteHeldId(null)}
+        onConfirm={() => {
+          if (confirmDeleteHeldId) onDeleteHeldCart(confirmDeleteHeldId);
+          setConfirmDeleteHeldId(null);
+        }}
       />
 
       <ConfirmDialog
-        isOpen={!!confirmRemoveId}
+        isOpen={!!confirmRemoveKey}
         title="Remove item?"
         message="This will remove the item from the cart."
         confirmText="Remove"
-        onCancel={() => setConfirmRemoveId(null)}
+        onCancel={() => setConfirmRemoveKey(null)}
         onConfirm={() => {
-          if (confirmRemoveId) onRemoveItem(confirmRemoveId);
-          setConfirmRemoveId(null);
+          if (confirmRemoveKey) onRemoveItem(confirmRemoveKey);
+          setConfirmRemoveKey(null);
         }}
       />
     </>
@@ -0,0 +1,325 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, TicketPercent, Trash2, Calendar, X } from 'lucide-react';
+import { ApiError, Coupon, CouponInput, DiscountMode, Product } from '../types';
+import { ApiService } from '../services/api';
+import { Coupons } from '../utils/coupons';
+import { Loader } from './ui/Loader';
+import { ErrorBanner } from './ui/ErrorBanner';
+import { useToast } from './ui/Toast';
+
+interface CouponsManagerProps {
+  products: Product[];
+}
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,20}$/;
+
+const emptyForm = {
+  code: '',
+  valueType: 'PERCENT' as DiscountMode,
+  value: '',
+  maxDiscount: '',
+  minOrderValue: '',
+  categories: [] as string[],
+  startsAt: '',
+  endsAt: '',
+  usageLimit: '',
+  perCustomerLimit: '',
+};
+
+// Optional numeric fields are left out of the payload when blank
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+export const CouponsManager: React.FC<CouponsManagerProps> = ({ products }) => {
+  const { show } = useToast();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const categories = useMemo(() => Array.from(new Set(products.map(p => p.category).filter(Boolean))).sort(), [products]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await ApiService.getCoupons({ signal: controller.signal });
+        if (controller.signal.aborted) return;
+        setCoupons(Array.isArray(response) ? response : Array.isArray(response?.coupons) ? response.coupons : []);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load coupons:', err);
+        setError((err as ApiError).message || 'Failed to load coupons');
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+    load();
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const buildPayload = (): CouponInput | string => {
+    const code = Coupons.normalizeCode(form.code);
+    if (!CODE_PATTERN.test(code)) return 'Code must be 3-20 letters, digits, - or _';
+    const value = parseFloat(form.value);
+    if (!(value > 0)) return 'Enter the coupon value';
+    if (form.valueType === 'PERCENT' && value > 100) return 'Percentage must be between 1 and 100';
+    const numbers = [form.maxDiscount, form.minOrderValue, form.usageLimit, form.perCustomerLimit].map(optionalNumber);
+    if (numbers.some(n => n !== undefined && !(n >= 0))) return 'Limits must be zero or more';
+    if (form.startsAt && form.endsAt && form.endsAt < form.startsAt) return 'End date is before the start date';
+    const [maxDiscount, minOrderValue, usageLimit, perCustomerLimit] = numbers;
+    return {
+      code,
+      valueType: form.valueType,
+      value,
+      maxDiscount: form.valueType === 'PERCENT' ? maxDiscount : undefined,
+      minOrderValue,
+      eligibleCategories: form.categories.length ? form.categories : undefined,
+      startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`).toISOString() : undefined,
+      endsAt: form.endsAt ? new Date(`${form.endsAt}T23:59:59`).toISOString() : undefined,
+      usageLimit: usageLimit !== undefined ? Math.floor(usageLimit) : undefined,
+      perCustomerLimit: perCustomerLimit !== undefined ? Math.floor(perCustomerLimit) : undefined,
+      active: true,
+    };
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = buildPayload();
+    if (typeof payload === 'string') {
+      show(payload, { type: 'warning' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await ApiService.createCoupon(payload);
+      show(`Coupon ${payload.code} created`, { type: 'success' });
+      setForm(emptyForm);
+      setShowForm(false);
+      setReloadKey(k => k + 1);
+    } catch (err) {
+      console.error('Failed to create coupon:', err);
+      show((err as ApiError).message || 'Failed to create coupon', { type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (coupon: Coupon) => {
+    try {
+      await ApiService.updateCoupon(coupon._id, { active: !coupon.active });
+      setReloadKey(k => k + 1);
+    } catch (err) {
+      show((err as ApiError).message || 'Failed to update coupon', { type: 'error' });
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}? Orders that used it keep their discount.`)) return;
+    try {
+      await ApiService.deleteCoupon(coupon._id);
+      show('Coupon deleted', { type: 'success' });
+      setReloadKey(k => k + 1);
+    } catch (err) {
+      show((err as ApiError).message || 'Failed to delete coupon', { type: 'error' });
+    }
+  };
+
+  const describeWindow = (coupon: Coupon) => {
+    if (!coupon.startsAt && !coupon.endsAt) return '';
+    const fmt = (d?: string) => (d ? new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' }) : '…');
+    return `${fmt(coupon.startsAt)} – ${fmt(coupon.endsAt)}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="bg-surface border-b border-gray-100 sticky top-0 z-30">
+        <div className="px-5 lg:px-8 py-4 flex items-end justify-between gap-3">
+          <div>
+            <h1 className="font-display text-2xl font-semibold text-gray-900">Coupons</h1>
+            <p className="text-accent-400 text-sm mt-1">Codes customers can redeem at checkout</p>
+          </div>
+          <button
+            onClick={() => setShowForm(v => !v)}
+            className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-primary text-white text-sm font-medium shadow-sm hover:bg-primary/90"
+          >
+            {showForm ? <X className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            {showForm ? 'Close' : 'New Coupon'}
+          </button>
+        </div>
+      </div>
+
+      <div className="px-5 lg:px-8 py-6 pb-32 max-w-3xl space-y-6">
+        {showForm && (
+          <form onSubmit={handleCreate} className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm space-y-4">
+            <input
+              type="text"
+              value={form.code}
+              onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+              placeholder="Code, e.g. DIWALI10"
+              className="input-field font-mono"
+              autoComplete="off"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                value={form.valueType}
+                onChange={(e) => setForm(prev => ({ ...prev, valueType: e.target.value as DiscountMode }))}
+                className="input-field"
+                aria-label="Value type"
+              >
+                <option value="PERCENT">% off</option>
+                <option value="AMOUNT">₹ off</option>
+              </select>
+              <input
+                type="number"
+                min={0}
+                max={form.valueType === 'PERCENT' ? 100 : undefined}
+                value={form.value}
+                onChange={(e) => setForm(prev => ({ ...prev, value: e.target.value }))}
+                placeholder={form.valueType === 'PERCENT' ? 'Percent off' : 'Amount off (₹)'}
+                className="input-field"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {form.valueType === 'PERCENT' && (
+                <input
+                  type="number"
+                  min={0}
+                  value={form.maxDiscount}
+                  onChange={(e) => setForm(prev => ({ ...prev, maxDiscount: e.target.value }))}
+                  placeholder="Max discount (₹)"
+                  className="input-field"
+                />
+              )}
+              <input
+                type="number"
+                min={0}
+                value={form.minOrderValue}
+                onChange={(e) => setForm(prev => ({ ...prev, minOrderValue: e.target.value }))}
+                placeholder="Min order (₹)"
+                className="input-field"
+              />
+            </div>
+
+            <select
+              value=""
+              onChange={(e) => {
+                const category = e.target.value;
+                if (category) setForm(prev => ({ ...prev, categories: prev.categories.includes(category) ? prev.categories : [...prev.categories, category] }));
+              }}
+              className="input-field"
+              aria-label="Eligible categories"
+            >
+              <option value="">{form.categories.length ? 'Add another category...' : 'All categories (or pick some)...'}</option>
+              {categories.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            {form.categories.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {form.categories.map(c => (
+                  <span key={c} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-gray-100 text-sm text-accent-600">
+                    {c}
+                    <button
+                      type="button"
+                      onClick={() => setForm(prev => ({ ...prev, categories: prev.categories.filter(x => x !== c) }))}
+                      aria-label={`Remove ${c}`}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-accent-500 mb-1">Starts</label>
+                <input type="date" value={form.startsAt} onChange={(e) => setForm(prev => ({ ...prev, startsAt: e.target.value }))} className="input-compact w-full" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-accent-500 mb-1">Ends</label>
+                <input type="date" value={form.endsAt} onChange={(e) => setForm(prev => ({ ...prev, endsAt: e.target.value }))} className="input-compact w-full" />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="number"
+                min={0}
+                value={form.usageLimit}
+                onChange={(e) => setForm(prev => ({ ...prev, usageLimit: e.target.value }))}
+                placeholder="Total uses (blank = unlimited)"
+                className="input-field"
+              />
+              <input
+                type="number"
+                min={0}
+                value={form.perCustomerLimit}
+                onChange={(e) => setForm(prev => ({ ...prev, perCustomerLimit: e.target.value }))}
+                placeholder="Uses per customer"
+                className="input-field"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full inline-flex items-center justify-center gap-2 px-5 py-3 rounded-xl bg-primary text-white font-medium shadow-sm hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <TicketPercent className="h-5 w-5" />
+              <span>{isSaving ? 'Saving...' : 'Create Coupon'}</span>
+            </button>
+          </form>
+        )}
+
+        {isLoading && <Loader label="Loading coupons..." />}
+        {error && <ErrorBanner message={error} onRetry={() => setReloadKey(k => k + 1)} />}
+
+        {!isLoading && !error && coupons.length === 0 && !showForm && (
+          <div className="text-center py-24">
+            <div className="inline-flex items-center justify-center w-20 h-20 bg-accent-100 rounded-3xl mb-6">
+              <TicketPercent className="h-10 w-10 text-accent-400" />
+            </div>
+            <h3 className="font-display text-xl font-semibold text-gray-900 mb-2">No coupons yet</h3>
+            <p className="text-accent-500 text-sm max-w-sm mx-auto">Create a code and customers can redeem it from the cart.</p>
+          </div>
+        )}
+
+        {coupons.length > 0 && (
+          <div className="bg-white rounded-3xl border border-gray-100 shadow-sm divide-y divide-gray-100">
+            {coupons.map(coupon => {
+              const window = describeWindow(coupon);
+              return (
+                <div key={coupon._id} className="px-5 py-4 flex items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 font-mono truncate">{coupon.code}</p>
+                    <p className="text-sm text-accent-500">{Coupons.describe(coupon)}</p>
+                    <p className="text-xs text-accent-400 flex items-center gap-1 mt-0.5">
+                      {window && <><Calendar className="h-3 w-3" />{window} · </>}
+                      Used {coupon.usedCount}{coupon.usageLimit ? ` of ${coupon.usageLimit}` : ''}
+                      {coupon.perCustomerLimit ? ` · ${coupon.perCustomerLimit} per customer` : ''}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleToggle(coupon)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium border ${coupon.active ? 'border-green-200 bg-green-50 text-green-700' : 'border-gray-200 text-accent-500'}`}
+                    aria-pressed={coupon.active}
+                  >{coupon.active ? 'Enabled' : 'Disabled'}</button>
+                  <button
+                    onClick={() => handleDelete(coupon)}
+                    className="p-2 text-accent-400 hover:text-primary hover:bg-red-50 rounded-lg transition-colors"
+                    aria-label="Delete coupon"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Save, Phone, Mail, FileText, User, ShoppingBag, ChevronRight } from 'lucide-react';
+import { ApiError, Customer, Order, ShopSettings } from '../types';
+import { ApiService } from '../services/api';
+import { EditOrder } from './EditOrder';
+import { Loader } from './ui/Loader';
+import { ErrorBanner } from './ui/ErrorBanner';
+import { useToast } from './ui/Toast';
+
+interface CustomerDetailProps {
+  customerId: string;
+  settings?: ShopSettings;
+  onBack: () => void;
+  onCustomerUpdated: () => void;
+}
+
+export const CustomerDetail: React.FC<CustomerDetailProps> = ({ customerId, settings, onBack, onCustomerUpdated }) => {
+  const { show } = useToast();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loyaltyBalance, setLoyaltyBalance] = useState<number | null>(null);
+  const [formData, setFormData] = useState({ name: '', email: '', notes: '' });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const found = await ApiService.getCustomer(customerId);
+        const [response, account] = await Promise.all([
+          ApiService.getAllOrders({ customerPhone: found.phone, pageSize: 100, sortBy: 'date', sortDir: 'desc' }),
+          ApiService.getLoyaltyAccount(found.phone).catch(() => null),
+        ]);
+        if (cancelled) return;
+        setLoyaltyBalance(account ? account.balance : null);
+        const list: Order[] = Array.isArray(response?.orders) ? response.orders : Array.isArray(response) ? response : [];
+        setCustomer(found);
+        setFormData({ name: found.name, email: found.email || '', notes: found.notes || '' });
+        // Servers without the customerPhone filter return every order
+        setOrders(list.filter(o => o.customerPhone === found.phone));
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Failed to load customer:', err);
+        setError((err as ApiError).message || 'Failed to load customer');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [customerId, reloadKey]);
+
+  const handleSave = async () => {
+    if (!customer) return;
+    if (!formData.name.trim()) {
+      show('Customer name is required', { type: 'warning' });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const updated = await ApiService.updateCustomer(customer._id, {
+        name: formData.name.trim(),
+        email: formData.email.trim() || undefined,
+        notes: formData.notes.trim() || undefined,
+      });
+      setCustomer(prev => ({ ...prev!, ...updated }));
+      onCustomerUpdated();
+      show('Customer saved', { type: 'success' });
+    } catch (err) {
+      console.error('Failed to update customer:', err);
+      show((err as ApiError).message || 'Failed to save customer', { type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (editingOrderId) {
+    return (
+      <EditOrder
+        orderId={editingOrderId}
+        settings={settings}
+        onBack={() => setEditingOrderId(null)}
+        onOrderUpdated={() => setReloadKey(k => k + 1)}
+        onOrderDeleted={() => setReloadKey(k => k + 1)}
+      />
+    );
+  }
+
+  // Directory counters are maintained server-side; fall back to the loaded orders if missing
+  const activeOrders = orders.filter(o => o.paymentStatus !== 'CANCELLED');
+  const lifetimeSpend = customer?.lifetimeSpend ?? activeOrders.reduce((s, o) => s + (o.total || 0), 0);
+  const visitCount = customer?.visitCount ?? activeOrders.length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="bg-surface border-b border-gray-100 sticky top-0 z-30">
+        <div className="px-5 lg:px-8 py-4 flex items-center gap-3">
+          <button
+            onClick={onBack}
+            className="p-2 rounded-xl text-accent-600 hover:text-gray-900 hover:bg-gray-50 transition-colors"
+            aria-label="Back to customers"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <div className="min-w-0">
+            <h1 className="font-display text-2xl font-semibold text-gray-900 tracking-tight truncate">{customer?.name || 'Customer'}</h1>
+            {customer && (
+              <p className="text-accent-400 text-sm mt-1 flex items-center gap-1"><Phone className="h-3.5 w-3.5" />{customer.phone}</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="p-5 lg:p-8 pb-28 max-w-3xl space-y-6">
+        {isLoading && <Loader label="Loading customer..." />}
+        {error && <ErrorBanner message={error} onRetry={() => setReloadKey(k => k + 1)} />}
+
+        {customer && (
+          <>
+            <div className={`grid gap-3 ${loyaltyBalance !== null ? 'grid-cols-3' : 'grid-cols-2'}`}>
+              <div className="rounded-2xl bg-white shadow-sm border border-gray-100 p-4">
+                <p className="text-xs uppercase tracking-wide text-accent-400 font-medium">Lifetime Spend</p>
+                <p className="font-display text-xl md:text-2xl font-semibold text-gray-900 mt-1">₹{lifetimeSpend.toFixed(0)}</p>
+              </div>
+              <div className="rounded-2xl bg-white shadow-sm border border-gray-100 p-4">
+                <p className="text-xs uppercase tracking-wide text-accent-400 font-medium">Visits</p>
+                <p className="font-display text-xl md:text-2xl font-semibold text-gray-900 mt-1">{visitCount}</p>
+              </div>
+              {loyaltyBalance !== null && (
+                <div className="rounded-2xl bg-white shadow-sm border border-gray-100 p-4">
+                  <p className="text-xs uppercase tracking-wide text-accent-400 font-medium">Points</p>
+                  <p className="font-display text-xl md:text-2xl font-semibold text-gray-900 mt-1">{loyaltyBalance}</p>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm space-y-4">
+              <h3 className="font-display text-lg font-semibold text-gray-900">Details</h3>
+              <div className="relative">
+                <User className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Name"
+                  className="input-fieldIcon pl-12"
+                />
+              </div>
+              <div className="relative">
+                <Mail className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                  placeholder="Email (optional)"
+                  className="input-fieldIcon pl-12"
+                />
+              </div>
+              <div className="relative">
+                <FileText className="absolute left-4 top-4 text-accent-400 h-5 w-5" />
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+                  placeholder="Notes (sizes, preferences...)"
+                  rows={3}
+                  className="input-fieldIcon pl-12 resize-none"
+                />
+              </div>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="w-full inline-flex items-center justify-center gap-2 px-5 py-3 rounded-xl bg-primary text-white font-medium shadow-sm hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Save className="h-5 w-5" />
+                <span>{isSaving ? 'Saving...' : 'Save Customer'}</span>
+              </button>
+            </div>
+
+            <div className="bg-white border border-gray-100 rounded-3xl shadow-sm">
+              <h3 className="font-display text-lg font-semibold text-gray-900 px-6 pt-6 pb-3">Orders</h3>
+              {orders.length === 0 ? (
+                <div className="px-6 pb-6 text-sm text-accent-500 flex items-center gap-2">
+                  <ShoppingBag className="h-4 w-4" />
+                  No orders yet
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {orders.map(o => (
+                    <button
+                      key={o._id}
+                      onClick={() => setEditingOrderId(o._id)}
+                      className="w-full text-left px-6 py-3 flex items-center gap-4 hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-900">
+                          {new Date(o.date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}
+                        </p>
+                        <p className="text-xs text-accent-400">{o.items.reduce((s, it) => s + it.qty, 0)} items · {o.paymentStatus}</p>
+                      </div>
+                      <span className={`font-semibold tabular-nums ${o.paymentStatus === 'CANCELLED' ? 'text-accent-300 line-through' : 'text-gray-900'}`}>₹{o.total}</span>
+                      <ChevronRight className="h-4 w-4 text-accent-300" />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
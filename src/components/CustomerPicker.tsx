@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Phone, UserPlus, X } from 'lucide-react';
+import { ApiError, Customer } from '../types';
+import { ApiService } from '../services/api';
+
+interface CustomerPickerProps {
+  phone: string;
+  onPhoneChange: (phone: string) => void;
+  customer: Customer | null;
+  onSelect: (customer: Customer | null) => void;
+  placeholder?: string;
+}
+
+const MIN_PHONE_DIGITS = 10;
+
+// Phone input that suggests directory customers and can register a new one inline
+export const CustomerPicker: React.FC<CustomerPickerProps> = ({
+  phone,
+  onPhoneChange,
+  customer,
+  onSelect,
+  placeholder = 'Phone number or name'
+}) => {
+  const [matches, setMatches] = useState<Customer[]>([]);
+  const [searched, setSearched] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const term = phone.trim();
+    if (customer || term.length < 3) {
+      setMatches([]);
+      setSearched(false);
+      return;
+    }
+    const controller = new AbortController();
+    const h = setTimeout(() => {
+      ApiService.getCustomers({ q: term, pageSize: 6 }, { signal: controller.signal })
+        .then((res) => {
+          setMatches(Array.isArray(res?.customers) ? res.customers : []);
+          setSearched(true);
+        })
+        .catch((err: ApiError) => {
+          if (err?.code !== 'ABORTED') console.error('Customer search failed:', err);
+        });
+    }, 300);
+    return () => {
+      clearTimeout(h);
+      controller.abort();
+    };
+  }, [phone, customer]);
+
+  const handlePick = (picked: Customer) => {
+    onSelect(picked);
+    onPhoneChange(picked.phone);
+    setMatches([]);
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    setIsCreating(true);
+    setCreateError(null);
+    try {
+      const created = await ApiService.createCustomer({ name: newName.trim(), phone: phone.trim() });
+      setNewName('');
+      handlePick(created);
+    } catch (err) {
+      setCreateError((err as ApiError).message || 'Failed to add customer');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const digits = phone.replace(/\D/g, '');
+  const canCreate = !customer && searched && digits.length >= MIN_PHONE_DIGITS && !matches.some(m => m.phone.replace(/\D/g, '') === digits);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Phone className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+        <input
+          type="tel"
+          value={phone}
+          onChange={(e) => { onPhoneChange(e.target.value); if (customer) onSelect(null); }}
+          placeholder={placeholder}
+          className="input-fieldIcon pl-12"
+          autoComplete="off"
+        />
+      </div>
+
+      {customer && (
+        <div className="flex items-center justify-between rounded-xl bg-primary/5 border border-primary/20 px-3 py-2 text-sm">
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900 truncate">{customer.name}</p>
+            <p className="text-xs text-accent-500">
+              {customer.visitCount} visit{customer.visitCount === 1 ? '' : 's'} · ₹{(customer.lifetimeSpend || 0).toFixed(0)} lifetime
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className="p-1.5 text-accent-400 hover:text-primary rounded-lg"
+            aria-label="Detach customer"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {!customer && matches.length > 0 && (
+        <div className="border border-gray-100 rounded-xl divide-y divide-gray-100 max-h-48 overflow-y-auto bg-white">
+          {matches.map(m => (
+            <button
+              key={m._id}
+              type="button"
+              onClick={() => handlePick(m)}
+              className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 flex justify-between gap-3"
+            >
+              <span className="truncate">{m.name} <span className="text-accent-400">· {m.phone}</span></span>
+              <span className="text-accent-500 shrink-0">{m.visitCount} visits</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {canCreate && (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New customer name"
+            className="input-compact flex-1"
+          />
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={isCreating || !newName.trim()}
+            className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-medium border border-gray-200 text-accent-600 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <UserPlus className="h-3.5 w-3.5" />
+            {isCreating ? 'Adding...' : 'Add'}
+          </button>
+        </div>
+      )}
+      {createError && <p className="text-xs text-primary">{createError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Search, Users, Phone, ChevronRight } from 'lucide-react';
+import { ApiError, Customer, ShopSettings } from '../types';
+import { ApiService } from '../services/api';
+import { CustomerDetail } from './CustomerDetail';
+import { Loader } from './ui/Loader';
+import { ErrorBanner } from './ui/ErrorBanner';
+
+const PAGE_SIZE = 20;
+
+interface CustomersProps {
+  settings?: ShopSettings; // passed down to order editing
+}
+
+export const Customers: React.FC<CustomersProps> = ({ settings }) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [q, setQ] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const h = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await ApiService.getCustomers(
+          { q: q.trim() || undefined, page, pageSize: PAGE_SIZE, sortBy: 'lastVisitAt' },
+          { signal: controller.signal }
+        );
+        if (controller.signal.aborted) return;
+        const list = Array.isArray(response?.customers) ? response.customers : [];
+        setCustomers(list);
+        setTotalCount(response?.pagination?.totalCount ?? list.length);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load customers:', err);
+        setError((err as ApiError).message || 'Failed to load customers');
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, q ? 300 : 0);
+    return () => {
+      clearTimeout(h);
+      controller.abort();
+    };
+  }, [q, page, reloadKey]);
+
+  if (selectedId) {
+    return (
+      <CustomerDetail
+        customerId={selectedId}
+        settings={settings}
+        onBack={() => setSelectedId(null)}
+        onCustomerUpdated={() => setReloadKey(k => k + 1)}
+      />
+    );
+  }
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="bg-surface border-b border-gray-100 sticky top-0 z-30">
+        <div className="px-5 lg:px-8 py-4 flex flex-col gap-4">
+          <div>
+            <h1 className="font-display text-2xl font-semibold text-gray-900 tracking-tight">Customers</h1>
+            <p className="text-accent-400 text-sm mt-1">{totalCount} customers in the directory</p>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-accent-400 h-4 w-4" />
+            <input
+              type="text"
+              value={q}
+              onChange={(e) => { setQ(e.target.value); setPage(1); }}
+              placeholder="Search by name or phone..."
+              className="input-fieldIcon pl-9 text-sm w-full"
+              aria-label="Search customers"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="p-5 lg:p-8 pb-28">
+        {isLoading && <div className="mb-6"><Loader label="Loading customers..." /></div>}
+        {error && <div className="mb-6"><ErrorBanner message={error} onRetry={() => setReloadKey(k => k + 1)} /></div>}
+
+        {!isLoading && !error && customers.length === 0 && (
+          <div className="text-center py-24">
+            <div className="inline-flex items-center justify-center w-20 h-20 bg-accent-100 rounded-3xl mb-6">
+              <Users className="h-10 w-10 text-accent-400" />
+            </div>
+            <h3 className="font-display text-xl font-semibold text-gray-900 mb-2">No customers found</h3>
+            <p className="text-accent-500 text-sm max-w-sm mx-auto">Customers are added from the cart when a phone number is attached to a sale.</p>
+          </div>
+        )}
+
+        {customers.length > 0 && (
+          <div className="bg-white rounded-3xl border border-gray-100 shadow-sm divide-y divide-gray-100">
+            {customers.map(c => (
+              <button
+                key={c._id}
+                onClick={() => setSelectedId(c._id)}
+                className="w-full text-left px-5 py-4 flex items-center gap-4 hover:bg-gray-50 transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{c.name}</p>
+                  <p className="text-sm text-accent-500 flex items-center gap-1">
+                    <Phone className="h-3.5 w-3.5" />
+                    {c.phone}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="font-semibold text-gray-900 tabular-nums">₹{(c.lifetimeSpend || 0).toFixed(0)}</p>
+                  <p className="text-xs text-accent-400">{c.visitCount} visit{c.visitCount === 1 ? '' : 's'}</p>
+                </div>
+                <ChevronRight className="h-4 w-4 text-accent-300" />
+              </button>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="mt-8 flex items-center justify-between">
+            <button
+              className="px-4 py-2 rounded-xl border border-gray-200 text-accent-600 disabled:opacity-40 disabled:cursor-not-allowed hover:bg-gray-50"
+              disabled={page <= 1}
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+            >Prev</button>
+            <span className="text-sm text-accent-500">Page <span className="font-semibold text-gray-900">{page}</span> of {totalPages}</span>
+            <button
+              className="px-4 py-2 rounded-xl border border-gray-200 text-accent-600 disabled:opacity-40 disabled:cursor-not-allowed hover:bg-gray-50"
+              disabled={page >= totalPages}
+              onClick={() => setPage(p => p + 1)}
+            >Next</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,77 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Save, X, Phone, CreditCard, Banknote } from 'lucide-react';
-import { Order } from '../types';
+import { ArrowLeft, Save, X, Undo2, Plus, Minus, Trash2 } from 'lucide-react';
+import { Customer, Order, OrderItem, PaymentMethod, Product, ShopSettings } from '../types';
 import { ApiService } from '../services/api';
+import { ReturnExchange } from './ReturnExchange';
+import { ProductPicker } from './ProductPicker';
+import { TenderCapture } from './TenderCapture';
+import { CustomerPicker } from './CustomerPicker';
+import { Payments } from '../utils/payments';
+import { Tenders } from '../utils/tenders';
+import { Loyalty } from '../utils/loyalty';
+import { Coupons } from '../utils/coupons';
+import { Tax } from '../utils/tax';
 
 interface EditOrderProps {
   orderId: string;
+  settings?: ShopSettings;
   onBack: () => void;
   onOrderUpdated: () => void;
   onOrderDeleted: () => void;
 }
 
-export const EditOrder: React.FC<EditOrderProps> = ({ orderId, onBack, onOrderUpdated, onOrderDeleted }) => {
+// Working copy of an order line while editing
+interface EditableLine {
+  productId: string; // '' on quick-sale lines
+  misc?: Pick<OrderItem, 'gst' | 'hsnSac'>; // quick-sale lines keep the GST rate and HSN they were sold with
+  name: string;
+  size: string;
+  sku?: string;
+  qty: number;
+  price: number;
+  wholesalePrice: number;
+  gstRate: number;
+  promoDiscount: number; // kept from checkout only while the line is untouched
+  lineDiscount: number; // same rule as promoDiscount
+  sourceIndex?: number; // position in the saved order, for remapping applied promotions
+}
+
+const lineKey = (productId: string, size: string) => `${productId}::${size}`;
+
+const toEditableLine = (item: OrderItem, index: number): EditableLine => {
+  const product = typeof item.product === 'object' ? item.product : undefined;
+  return {
+    productId: product ? product._id : ((item.product as string | undefined) || ''),
+    name: product?.name || item.name || 'Product',
+    misc: item.product ? undefined : { gst: item.gst, hsnSac: item.hsnSac },
+    size: item.size,
+    sku: item.sku,
+    qty: item.qty,
+    price: item.price,
+    wholesalePrice: product?.wholesalePrice || 0,
+    gstRate: Tax.rateOf(product || item),
+    promoDiscount: item.promoDiscount || 0,
+    lineDiscount: item.lineDiscount || 0,
+    sourceIndex: index,
+  };
+};
+
+export const EditOrder: React.FC<EditOrderProps> = ({ orderId, settings, onBack, onOrderUpdated, onOrderDeleted }) => {
   const [order, setOrder] = useState<Order | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [showReturnForm, setShowReturnForm] = useState(false);
+  const [lines, setLines] = useState<EditableLine[]>([]);
+  const [itemsDirty, setItemsDirty] = useState(false);
+  // Fresh product data for stock checks, keyed by product id
+  const [productsById, setProductsById] = useState<Record<string, Product>>({});
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  // Capture fields (e.g. card last-4) for a single-tender order
+  const [paymentDetails, setPaymentDetails] = useState<Record<string, string>>({});
   const [formData, setFormData] = useState({
     customerPhone: '',
     paymentStatus: 'PENDING' as 'PENDING' | 'PAID' | 'CANCELLED',
-    paymentMethod: 'CASH' as 'CASH' | 'UPI',
+    paymentMethod: 'CASH' as PaymentMethod,
     discount: 0,
     notes: ''
   });
@@ -37,6 +91,17 @@ export const EditOrder: React.FC<EditOrderProps> = ({ orderId, onBack, onOrderUp
         discount: response.discount || 0,
         notes: response.notes || ''
       });
+      setPaymentDetails(response.payments?.length === 1 ? response.payments[0].details || {} : {});
+      setCustomer(response.customer && typeof response.customer === 'object' ? response.customer : null);
+      if (typeof response.customer === 'string') {
+        ApiService.getCustomer(response.customer)
+          .then(setCustomer)
+          .catch(err => console.error('Failed to load customer:', err));
+      }
+      const initialLines = (response.items || []).map(toEditableLine);
+      setLines(initialLines);
+      setItemsDirty(false);
+      loadLineProducts(initialLines);
     } catch (error) {
       console.error('Failed to load order:', error);
       alert('Failed to load order');
@@ -46,10 +111,166 @@ export const EditOrder: React.FC<EditOrderProps> = ({ orderId, onBack, onOrderUp
     }
   };
 
+  const loadLineProducts = async (initialLines: EditableLine[]) => {
+    const ids = Array.from(new Set(initialLines.map(l => l.productId).filter(Boolean)));
+    const fetched = await Promise.all(ids.map(id =>
+      ApiService.getProduct(id)
+        .then((res) => (res?.data ?? res) as Product)
+        .catch(() => null)
+    ));
+    const map: Record<string, Product> = {};
+    fetched.forEach(p => { if (p?._id) map[p._id] = p; });
+    setProductsById(prev => ({ ...prev, ...map }));
+    // Fill in cost prices the order payload did not include
+    setLines(prev => prev.map(l => (map[l.productId] && !l.wholesalePrice
+      ? {
+        ...l,
+        wholesalePrice: map[l.productId].wholesalePrice,
+        gstRate: Tax.rateOf(map[l.productId]),
+        name: l.name === 'Product' ? map[l.productId].name : l.name,
+      }
+      : l)));
+  };
+
+  // Units already deducted from inventory by this order, per product+size
+  const originalQty = (productId: string, size: string) =>
+    (order?.items || []).reduce((sum, it) => {
+      const id = typeof it.product === 'object' ? it.product._id : it.product;
+      return id === productId && it.size === size ? sum + it.qty : sum;
+    }, 0);
+
+  // Stock the order may use: what is on the shelf now plus what it already holds
+  const availableQty = (productId: string, size: string) => {
+    if (!productId) return Infinity; // quick-sale lines are not stocked
+    const shelf = productsById[productId]?.sizes.find(s => s.size === size)?.quantity ?? 0;
+    return shelf + originalQty(productId, size);
+  };
+
+  const usedQty = (productId: string, size: string, exceptIndex?: number) =>
+    lines.reduce((sum, l, i) => (i !== exceptIndex && l.productId === productId && l.size === size ? sum + l.qty : sum), 0);
+
+  const updateLines = (updater: (prev: EditableLine[]) => EditableLine[]) => {
+    setLines(updater);
+    setItemsDirty(true);
+  };
+
+  const changeLineQty = (index: number, qty: number) => {
+    const line = lines[index];
+    const max = availableQty(line.productId, line.size) - usedQty(line.productId, line.size, index);
+    if (qty > max) {
+      alert(`Only ${max} units of ${line.name} (${line.size}) available`);
+      return;
+    }
+    if (qty <= 0) return;
+    updateLines(prev => prev.map((l, i) => (i === index ? { ...l, qty, promoDiscount: 0, lineDiscount: 0 } : l)));
+  };
+
+  const changeLineSize = (index: number, size: string) => {
+    const line = lines[index];
+    const max = availableQty(line.productId, size) - usedQty(line.productId, size, index);
+    if (line.qty > max) {
+      alert(`Only ${Math.max(0, max)} units of ${line.name} (${size}) available`);
+      return;
+    }
+    const sizeEntry = productsById[line.productId]?.sizes.find(s => s.size === size);
+    updateLines(prev => prev.map((l, i) => (i === index ? { ...l, size, sku: sizeEntry?.sku, promoDiscount: 0, lineDiscount: 0 } : l)));
+  };
+
+  const removeLine = (index: number) => {
+    updateLines(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addLine = (product: Product, size: string) => {
+    setProductsById(prev => ({ ...prev, [product._id]: product }));
+    const sizeEntry = product.sizes.find(s => s.size === size);
+    const existingIndex = lines.findIndex(l => lineKey(l.productId, l.size) === lineKey(product._id, size));
+    const shelf = (sizeEntry?.quantity ?? 0) + originalQty(product._id, size);
+    if (usedQty(product._id, size) + 1 > shelf) {
+      alert(`No more stock available for ${product.name} (${size})`);
+      return;
+    }
+    if (existingIndex >= 0) {
+      // Like a quantity change, this voids the discounts worked out for the old quantity
+      updateLines(prev => prev.map((l, i) => (i === existingIndex ? { ...l, qty: l.qty + 1, promoDiscount: 0, lineDiscount: 0 } : l)));
+      return;
+    }
+    updateLines(prev => [...prev, {
+      productId: product._id,
+      name: product.name,
+      size,
+      sku: sizeEntry?.sku,
+      qty: 1,
+      price: sizeEntry?.price ?? product.retailPrice,
+      wholesalePrice: product.wholesalePrice,
+      gstRate: Tax.rateOf(product),
+      promoDiscount: 0,
+      lineDiscount: 0,
+    }]);
+  };
+
+  // Tenders of a split payment cannot be re-allocated here, so its items and discount stay as sold
+  const isSplitPayment = !!order?.payments && order.payments.length > 1;
+
+  // Same GST engine as Cart and the invoice, so an edited order totals the way its invoice will.
+  // The order stays in the pricing mode it was sold in, even if the shop has switched since.
+  const recomputedTotal = Tax.compute(
+    lines.map(l => ({ price: l.price, qty: l.qty, rate: l.gstRate, discount: l.promoDiscount + l.lineDiscount })),
+    formData.discount || 0,
+    Tax.inclusive(order?.pricesIncludeGst === undefined ? settings : order)
+  ).total;
+  // A new discount changes the total just as line edits do
+  const totalsDirty = itemsDirty || formData.discount !== (order?.discount || 0);
+  const recomputedProfit = lines.reduce((sum, l) => sum + (l.price - l.wholesalePrice) * l.qty - l.promoDiscount - l.lineDiscount, 0) - (formData.discount || 0);
+
+  // Applied promotions that survive the edit, re-pointed at the lines' new positions
+  const remapPromotions = () => (order?.promotions || []).flatMap(p => {
+    const newIndex = lines.findIndex(l => l.promoDiscount > 0 && l.sourceIndex === p.itemIndex);
+    return newIndex < 0 ? [] : [{ ...p, itemIndex: newIndex }];
+  });
+
   const handleSave = async () => {
+    if (itemsDirty) {
+      if (!lines.length) {
+        alert('An order needs at least one item. Cancel the order instead.');
+        return;
+      }
+      const overSold = lines.find(l => usedQty(l.productId, l.size) > availableQty(l.productId, l.size));
+      if (overSold) {
+        alert(`Not enough stock for ${overSold.name} (${overSold.size})`);
+        return;
+      }
+    }
+
+    const details = Tenders.cleanDetails(formData.paymentMethod, paymentDetails);
+    const payment = { method: formData.paymentMethod, amount: totalsDirty ? recomputedTotal : order?.total || 0, details };
+    if (!isSplitPayment) {
+      const captureError = Tenders.validate(payment);
+      if (captureError) {
+        alert(captureError);
+        return;
+      }
+    }
+
     setIsSaving(true);
     try {
-      await ApiService.updateOrder(orderId, formData);
+      const base = { ...formData, customer: customer?._id ?? null };
+      const paid = !isSplitPayment && (details || order?.payments?.length) ? { ...base, payments: [payment] } : base;
+      const updates = totalsDirty ? { ...paid, total: recomputedTotal, profit: recomputedProfit } : paid;
+      await ApiService.updateOrder(orderId, itemsDirty
+        ? {
+          ...updates,
+          items: lines.map(l => ({
+            ...(l.misc ? { name: l.name, ...l.misc } : { product: l.productId }),
+            size: l.size,
+            sku: l.sku,
+            qty: l.qty,
+            price: l.price,
+            promoDiscount: l.promoDiscount || undefined,
+            lineDiscount: l.lineDiscount || undefined,
+          })),
+          promotions: remapPromotions(),
+        }
+        : updates);
       alert('Order updated successfully');
       onOrderUpdated();
       onBack();
@@ -62,12 +283,18 @@ export const EditOrder: React.FC<EditOrderProps> = ({ orderId, onBack, onOrderUp
   };
 
   const handleCancel = async () => {
-    if (!confirm('Are you sure you want to cancel this order? Inventory will be restored.')) {
+    const reversal = [Loyalty.describeReversal(order?.loyalty), Coupons.describeRelease(order?.coupon)].filter(Boolean).join(', and ');
+    if (!confirm(`Are you sure you want to cancel this order? Inventory will be restored${reversal ? `, and ${reversal}` : ''}.`)) {
       return;
     }
 
     try {
       await ApiService.cancelOrder(orderId);
+      if (order?.coupon && !order.coupon.released) {
+        // The cancel itself succeeded; a failed release only leaves the coupon's usage count high
+        await ApiService.releaseCoupon(order.coupon.couponId, orderId)
+          .catch(err => console.error('Failed to release coupon:', err));
+      }
       alert('Order cancelled successfully');
       onOrderDeleted();
       onBack();
@@ -77,6 +304,9 @@ export const EditOrder: React.FC<EditOrderProps> = ({ orderId, onBack, onOrderUp
     }
   };
 
+  // Line edits would make existing return records point at the wrong lines
+  const canEditItems = !!order && order.paymentStatus !== 'CANCELLED' && !(order.returns && order.returns.length) && !isSplitPayment;
+
   if (isLoading) {
     return (
       <div className="p-4 pb-20 lg:pb-4 lg:pt-6">
@@ -145,18 +375,140 @@ export const EditOrder: React.FC<EditOrderProps> = ({ orderId, onBack, onOrderUp
         {/* Items */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
           <h3 className="font-medium text-gray-900 mb-3">Items</h3>
-          <div className="space-y-2">
-            {order.items.map((item, index) => (
-              <div key={index} className="flex justify-between items-center text-sm">
-                <span className="text-gray-700">
-                  {typeof item.product === 'object' ? item.product.name : 'Product'} × {item.qty}
-                </span>
-                <span className="text-gray-600">₹{item.subtotal || (item.price * item.qty)}</span>
+          {!canEditItems ? (
+            <div className="space-y-2">
+              {order.items.map((item, index) => (
+                <div key={index} className="flex justify-between items-center text-sm">
+                  <span className="text-gray-700">
+                    {typeof item.product === 'object' ? item.product.name : item.name || 'Product'} × {item.qty}
+                  </span>
+                  <span className="text-gray-600">₹{item.subtotal || (item.price * item.qty)}</span>
+                </div>
+              ))}
+              {order.returns && order.returns.length > 0 && (
+                <p className="text-xs text-gray-500 pt-1">Items can't be edited after a return has been recorded.</p>
+              )}
+              {isSplitPayment && !(order.returns && order.returns.length > 0) && (
+                <p className="text-xs text-gray-500 pt-1">Items can't be edited on a split payment.</p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {lines.map((line, index) => {
+                const product = productsById[line.productId];
+                const sizeOptions = product
+                  ? product.sizes.filter(s => s.size === line.size || availableQty(line.productId, s.size) > 0).map(s => s.size)
+                  : [line.size];
+                return (
+                  <div key={`${line.productId}-${index}`} className="flex items-center gap-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-gray-700 truncate">{line.name}</p>
+                      <p className="text-xs text-gray-500">₹{line.price} each</p>
+                    </div>
+                    <select
+                      value={line.size}
+                      onChange={(e) => changeLineSize(index, e.target.value)}
+                      className="px-2 py-1.5 border border-gray-200 rounded-lg text-sm"
+                      aria-label="Size"
+                    >
+                      {sizeOptions.map(size => <option key={size} value={size}>{size}</option>)}
+                    </select>
+                    <div className="flex items-center bg-gray-50 rounded-lg p-1">
+                      <button
+                        onClick={() => changeLineQty(index, line.qty - 1)}
+                        disabled={line.qty <= 1}
+                        className="p-1.5 rounded hover:bg-gray-200 disabled:opacity-40"
+                        aria-label="Decrease quantity"
+                      >
+                        <Minus className="h-3.5 w-3.5" />
+                      </button>
+                      <span className="w-8 text-center tabular-nums">{line.qty}</span>
+                      <button
+                        onClick={() => changeLineQty(index, line.qty + 1)}
+                        disabled={line.qty >= availableQty(line.productId, line.size) - usedQty(line.productId, line.size, index)}
+                        className="p-1.5 rounded hover:bg-gray-200 disabled:opacity-40"
+                        aria-label="Increase quantity"
+                      >
+                        <Plus className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                    <span className="w-16 text-right text-gray-600 tabular-nums">₹{line.price * line.qty - line.promoDiscount - line.lineDiscount}</span>
+                    <button
+                      onClick={() => removeLine(index)}
+                      className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg"
+                      aria-label="Remove item"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                );
+              })}
+              <div className="pt-2 border-t border-gray-100">
+                <p className="text-xs font-medium text-gray-500 mb-2 flex items-center gap-1"><Plus className="h-3 w-3" /> Add item</p>
+                <ProductPicker onPick={addLine} />
               </div>
-            ))}
-          </div>
+              {!!order.promotions?.length && (
+                <p className="text-xs text-gray-500">Promotions from checkout are dropped on lines whose size or quantity you change.</p>
+              )}
+              {totalsDirty && (
+                <div className="bg-blue-50 rounded-lg p-3 text-sm text-blue-800 flex justify-between">
+                  <span>New total: <strong>₹{recomputedTotal}</strong></span>
+                  <span>New profit: <strong>₹{recomputedProfit}</strong></span>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
+        {/* Returns */}
+        {order.returns && order.returns.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+            <h3 className="font-medium text-gray-900 mb-3">Returns & Exchanges</h3>
+            <div className="space-y-3">
+              {order.returns.map((ret, index) => (
+                <div key={ret._id || index} className="text-sm border-b border-gray-100 last:border-b-0 pb-2 last:pb-0">
+                  <div className="flex justify-between">
+                    <span className="text-gray-700">
+                      {new Date(ret.date).toLocaleDateString()} · {ret.items.reduce((s, it) => s + it.qty, 0)} returned
+                      {ret.exchangeItems?.length ? ` · ${ret.exchangeItems.reduce((s, it) => s + it.qty, 0)} exchanged` : ''}
+                    </span>
+                    <span className={ret.refundAmount >= 0 ? 'text-red-600' : 'text-green-600'}>
+                      {ret.refundAmount >= 0 ? '-' : '+'}₹{Math.abs(ret.refundAmount)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {ret.refundMethod === 'CREDIT_NOTE' ? `Credit note ${ret.creditNoteNumber || ''}` : `Refunded via ${ret.refundMethod}`}
+                    {ret.reason ? ` · ${ret.reason}` : ''}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {order.paymentStatus !== 'CANCELLED' && (
+          showReturnForm ? (
+            <ReturnExchange
+              order={order}
+              settings={settings}
+              onCancel={() => setShowReturnForm(false)}
+              onCompleted={() => {
+                setShowReturnForm(false);
+                loadOrder();
+                onOrderUpdated();
+              }}
+            />
+          ) : (
+            <button
+              onClick={() => setShowReturnForm(true)}
+              className="w-full flex items-center justify-center space-x-2 border border-gray-200 bg-white text-gray-700 py-3 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Undo2 className="h-4 w-4" />
+              <span>Return / Exchange Items</span>
+            </button>
+          )
+        )}
+
         {/* Edit Form */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
           <h3 className="font-medium text-gray-900 mb-4">Edit Order</h3>
@@ -164,18 +516,15 @@ export const EditOrder: React.FC<EditOrderProps> = ({ orderId, onBack, onOrderUp
           <div className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Customer Phone
+                Customer
               </label>
-              <div className="relative">
-                <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                <input
-                  type="tel"
-                  value={formData.customerPhone}
-                  onChange={(e) => setFormData(prev => ({ ...prev, customerPhone: e.target.value }))}
-                  className="input-fieldIcon pl-12"
-                  placeholder="Enter phone number"
-                />
-              </div>
+              <CustomerPicker
+                phone={formData.customerPhone}
+                onPhoneChange={(phone) => setFormData(prev => ({ ...prev, customerPhone: phone }))}
+                customer={customer}
+                onSelect={setCustomer}
+                placeholder="Enter phone number"
+              />
             </div>
 
             <div>
@@ -197,32 +546,46 @@ export const EditOrder: React.FC<EditOrderProps> = ({ orderId, onBack, onOrderUp
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Payment Method
               </label>
-              <div className="grid grid-cols-2 gap-3">
-                <button
-                  type="button"
-                  onClick={() => setFormData(prev => ({ ...prev, paymentMethod: 'CASH' }))}
-                  className={`flex items-center justify-center space-x-2 p-3 rounded-lg border-2 transition-colors ${
-                    formData.paymentMethod === 'CASH'
-                      ? 'border-green-500 bg-green-50 text-green-700'
-                      : 'border-gray-200 hover:border-gray-300'
-                  }`}
-                >
-                  <Banknote className="h-4 w-4" />
-                  <span>Cash</span>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setFormData(prev => ({ ...prev, paymentMethod: 'UPI' }))}
-                  className={`flex items-center justify-center space-x-2 p-3 rounded-lg border-2 transition-colors ${
-                    formData.paymentMethod === 'UPI'
-                      ? 'border-blue-500 bg-blue-50 text-blue-700'
-                      : 'border-gray-200 hover:border-gray-300'
-                  }`}
-                >
-                  <CreditCard className="h-4 w-4" />
-                  <span>UPI</span>
-                </button>
-              </div>
+              {order.payments && order.payments.length > 1 ? (
+                // Split tenders are recorded at checkout and are not editable here
+                <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-1">
+                  {Payments.forOrder(order).map((p, i) => (
+                    <div key={i} className="flex justify-between">
+                      <span className="text-gray-600">
+                        {Tenders.label(p.method)}
+                        {(p.reference || Tenders.describe(p)) && (
+                          <span className="text-xs text-gray-400 font-mono ml-2">{p.reference || Tenders.describe(p)}</span>
+                        )}
+                      </span>
+                      <span>₹{p.amount}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    {Tenders.list().map(tender => {
+                      const Icon = tender.icon;
+                      return (
+                        <button
+                          key={tender.method}
+                          type="button"
+                          onClick={() => { setFormData(prev => ({ ...prev, paymentMethod: tender.method })); setPaymentDetails({}); }}
+                          className={`flex items-center justify-center space-x-2 p-3 rounded-lg border-2 transition-colors ${
+                            formData.paymentMethod === tender.method
+                              ? 'border-blue-500 bg-blue-50 text-blue-700'
+                              : 'border-gray-200 hover:border-gray-300'
+                          }`}
+                        >
+                          <Icon className="h-4 w-4" />
+                          <span>{tender.label}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <TenderCapture method={formData.paymentMethod} details={paymentDetails} onChange={setPaymentDetails} />
+                </div>
+              )}
             </div>
 
             <div>
@@ -234,9 +597,16 @@ export const EditOrder: React.FC<EditOrderProps> = ({ orderId, onBack, onOrderUp
                 min="0"
                 value={formData.discount}
                 onChange={(e) => setFormData(prev => ({ ...prev, discount: Number(e.target.value) }))}
-                className="input-field"
+                disabled={isSplitPayment}
+                className="input-field disabled:opacity-50"
                 placeholder="Enter discount amount"
               />
+              {isSplitPayment && <p className="text-xs text-gray-500 mt-1">The discount can't be changed on a split payment.</p>}
+              {order.coupon && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Includes coupon {order.coupon.code} (₹{order.coupon.amount}){order.coupon.released ? ', released' : ''}
+                </p>
+              )}
             </div>
 
             <div>
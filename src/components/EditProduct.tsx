@@ -85,7 +85,7 @@ export const EditProduct: React.FC<EditProductProps> = ({
     }
   };
 
-  const handleSizeChange = (index: number, field: 'size' | 'quantity', value: string | number) => {
+  const handleSizeChange = (index: number, field: keyof ProductSize, value: string | number | undefined) => {
     setSizes(prev => prev.map((size, i) => 
       i === index ? { ...size, [field]: value } : size
     ));
@@ -128,13 +128,29 @@ export const EditProduct: React.FC<EditProductProps> = ({
     }
 
     // Validate sizes
-    const validSizes = sizes.filter(size => size.size.trim() && size.quantity >= 0);
+    const validSizes: ProductSize[] = sizes
+      .filter(size => size.size.trim() && size.quantity >= 0)
+      .map(size => ({
+        size: size.size.trim(),
+        quantity: size.quantity,
+        sku: size.sku?.trim() || undefined,
+        barcode: size.barcode?.trim() || undefined,
+        price: size.price !== undefined && size.price > 0 ? size.price : undefined
+      }));
     if (validSizes.length === 0) {
       alert('Please add at least one size with valid data');
       setIsLoading(false);
       return;
     }
 
+    // Each variant must be uniquely identifiable at scan time
+    const variantCodes = validSizes.flatMap(s => [s.sku, s.barcode]).filter(Boolean) as string[];
+    if (new Set(variantCodes).size !== variantCodes.length) {
+      alert('Each size must have a unique SKU and barcode');
+      setIsLoading(false);
+      return;
+    }
+
     const productData = {
       name: formData.name.trim(),
       category: formData.category.trim(),
@@ -373,37 +389,64 @@ export const EditProduct: React.FC<EditProductProps> = ({
             </button>
           </div>
 
-          <div className="space-y-3">
+          <div className="space-y-4">
             {sizes.map((size, index) => (
-              <div key={index} className="flex items-center space-x-3">
-                <div className="flex-1">
+              <div key={index} className="space-y-2 pb-4 border-b border-gray-100 last:border-b-0 last:pb-0">
+                <div className="flex items-center space-x-3">
+                  <div className="flex-1">
+                    <input
+                      type="text"
+                      value={size.size}
+                      onChange={(e) => handleSizeChange(index, 'size', e.target.value)}
+                      placeholder="Size (e.g., S, M, L, XL)"
+                      className="input-field"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <input
+                      type="number"
+                      value={size.quantity}
+                      onChange={(e) => handleSizeChange(index, 'quantity', parseInt(e.target.value) || 0)}
+                      placeholder="Quantity"
+                      min="0"
+                      className="input-field"
+                    />
+                  </div>
+                  {sizes.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => removeSize(index)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
                   <input
                     type="text"
-                    value={size.size}
-                    onChange={(e) => handleSizeChange(index, 'size', e.target.value)}
-                    placeholder="Size (e.g., S, M, L, XL)"
-                    className="input-field"
+                    value={size.sku || ''}
+                    onChange={(e) => handleSizeChange(index, 'sku', e.target.value)}
+                    placeholder="SKU (optional)"
+                    className="input-field text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={size.barcode || ''}
+                    onChange={(e) => handleSizeChange(index, 'barcode', e.target.value)}
+                    placeholder="Size barcode (optional)"
+                    className="input-field text-sm"
                   />
-                </div>
-                <div className="flex-1">
                   <input
                     type="number"
-                    value={size.quantity}
-                    onChange={(e) => handleSizeChange(index, 'quantity', parseInt(e.target.value) || 0)}
-                    placeholder="Quantity"
+                    value={size.price ?? ''}
+                    onChange={(e) => handleSizeChange(index, 'price', e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                    placeholder="Price override ₹ (optional)"
                     min="0"
-                    className="input-field"
+                    step="0.01"
+                    className="input-field text-sm"
                   />
                 </div>
-                {sizes.length > 1 && (
-                  <button
-                    type="button"
-                    onClick={() => removeSize(index)}
-                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                  >
-                    <Minus className="h-4 w-4" />
-                  </button>
-                )}
               </div>
             ))}
           </div>
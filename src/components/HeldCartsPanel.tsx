@@ -0,0 +1,49 @@
+import React from 'react';
+import { PlayCircle, Trash2, Clock } from 'lucide-react';
+import { HeldCart } from '../types';
+
+interface HeldCartsPanelProps {
+  heldCarts: HeldCart[];
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const HeldCartsPanel: React.FC<HeldCartsPanelProps> = ({ heldCarts, onResume, onDelete }) => {
+  if (heldCarts.length === 0) return null;
+  return (
+    <div className="bg-white border border-gray-100 rounded-3xl shadow-sm">
+      <h3 className="font-display text-base font-semibold text-gray-900 px-5 pt-5 pb-2">Held carts</h3>
+      <div className="divide-y divide-gray-100">
+        {heldCarts.map(cart => {
+          const units = cart.items.reduce((s, i) => s + i.cartQuantity, 0);
+          const value = cart.items.reduce((s, i) => s + i.retailPrice * i.cartQuantity, 0);
+          return (
+            <div key={cart.id} className="px-5 py-3 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate">{cart.name}</p>
+                <p className="text-xs text-accent-400 flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  {new Date(cart.createdAt).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })} · {units} item{units === 1 ? '' : 's'} · ₹{value}
+                </p>
+              </div>
+              <button
+                onClick={() => onResume(cart.id)}
+                className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-medium border border-gray-200 text-accent-600 hover:bg-gray-50"
+              >
+                <PlayCircle className="h-3.5 w-3.5" />
+                Resume
+              </button>
+              <button
+                onClick={() => onDelete(cart.id)}
+                className="p-2 text-accent-400 hover:text-primary hover:bg-red-50 rounded-lg transition-colors"
+                aria-label={`Discard held cart ${cart.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
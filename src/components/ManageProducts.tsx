@@ -9,13 +9,15 @@ import { UploadHistory } from './UploadHistory';
 interface ManageProductsProps {
   products: Product[];
   onProductsChange: () => void;
+  lowStockThreshold?: number;
 }
 
 type ManageView = 'list' | 'edit' | 'add' | 'bulk-upload' | 'upload-history';
 
 export const ManageProducts: React.FC<ManageProductsProps> = ({
   products,
-  onProductsChange
+  onProductsChange,
+  lowStockThreshold = 5
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
@@ -72,11 +74,12 @@ export const ManageProducts: React.FC<ManageProductsProps> = ({
       alert('No products to export');
       return;
     }
-    const header = ['Name','Category','Brand','WholesalePrice','RetailPrice','TotalQty','Sizes'];
+    // Columns and names follow the bulk upload template, so the file re-imports once saved as Excel
+    const header = ['name','category','brand','barcode','wholesalePrice','retailPrice','sizes','description','HSN/SAC','GST'];
     const rows = exportProducts.map(p => {
-      const sizeStr = (p.sizes || []).map(s => `${s.size}:${s.quantity}`).join('|');
-      const safe = (val: any) => typeof val === 'string' && (val.includes(',') || val.includes('"')) ? `"${val.replace(/"/g,'""')}"` : val;
-      return [p.name, p.category, p.brand || '', p.wholesalePrice, p.retailPrice, p.quantity, sizeStr].map(safe).join(',');
+      const sizes = JSON.stringify((p.sizes || []).map(({ size, quantity, sku, barcode, price }) => ({ size, quantity, sku, barcode, price })));
+      const safe = (val: any) => typeof val === 'string' && (val.includes(',') || val.includes('"') || val.includes('\n')) ? `"${val.replace(/"/g,'""')}"` : val;
+      return [p.name, p.category, p.brand || '', p.barcode || '', p.wholesalePrice, p.retailPrice, sizes, p.description || '', p.hsnSac || '', p.gst ?? ''].map(safe).join(',');
     });
     const csv = [header.join(','), ...rows].join('\n');
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
@@ -118,7 +121,7 @@ export const ManageProducts: React.FC<ManageProductsProps> = ({
 
   // Simple derived analytics for header cards
   const totalStock = filteredProducts.reduce((sum, p) => sum + p.quantity, 0);
-  const lowStockCount = filteredProducts.filter(p => p.quantity > 0 && p.quantity < 5).length;
+  const lowStockCount = filteredProducts.filter(p => p.quantity > 0 && p.quantity < lowStockThreshold).length;
   const outOfStockCount = filteredProducts.filter(p => p.quantity === 0).length;
   const avgProfit = filteredProducts.length
     ? Math.round(filteredProducts.reduce((sum, p) => sum + (p.retailPrice - p.wholesalePrice), 0) / filteredProducts.length)
@@ -232,7 +235,7 @@ export const ManageProducts: React.FC<ManageProductsProps> = ({
               <div className="p-3 rounded-xl border border-gray-100 bg-white flex items-center gap-3">
                 <Layers className="h-5 w-5 text-accent-400" />
                 <div>
-                  <p className="text-[11px] uppercase tracking-wide text-accent-400">Low (&lt;5)</p>
+                  <p className="text-[11px] uppercase tracking-wide text-accent-400">Low (&lt;{lowStockThreshold})</p>
                   <p className="font-semibold text-amber-600 text-sm tabular-nums">{lowStockCount}</p>
                 </div>
               </div>
@@ -400,7 +403,7 @@ export const ManageProducts: React.FC<ManageProductsProps> = ({
               const profit = product.retailPrice - product.wholesalePrice;
               const stockColor = product.quantity === 0
                 ? 'text-primary'
-                : product.quantity < 5
+                : product.quantity < lowStockThreshold
                   ? 'text-amber-600'
                   : 'text-green-600';
               return (
@@ -422,7 +425,7 @@ export const ManageProducts: React.FC<ManageProductsProps> = ({
                         {product.brand && <span className="text-accent-300 text-sm">{product.brand}</span>}
                         <span className="inline-flex items-center px-2 py-0.5 rounded-lg bg-gray-100 text-accent-500 text-xs font-medium">{product.category}</span>
                         {product.quantity === 0 && <span className="px-2 py-0.5 rounded-lg bg-primary/10 text-primary text-xs font-medium">OUT</span>}
-                        {product.quantity > 0 && product.quantity < 5 && <span className="px-2 py-0.5 rounded-lg bg-amber-100 text-amber-700 text-xs font-medium">LOW</span>}
+                        {product.quantity > 0 && product.quantity < lowStockThreshold && <span className="px-2 py-0.5 rounded-lg bg-amber-100 text-amber-700 text-xs font-medium">LOW</span>}
                       </div>
                       <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-3 text-sm">
                         <div>
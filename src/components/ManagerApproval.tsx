@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, KeyRound } from 'lucide-react';
+import { ApiError, DiscountApproval, DiscountApprovalRequest, ShopSettings } from '../types';
+import { ApiService } from '../services/api';
+import { OrderOutbox } from '../services/orderOutbox';
+
+interface ManagerApprovalProps {
+  isOpen: boolean;
+  reasons: string[];
+  settings: ShopSettings;
+  request: Omit<DiscountApprovalRequest, 'pin'>;
+  onApproved: (approval: DiscountApproval) => void;
+  onCancel: () => void;
+}
+
+// PIN prompt shown when a sale breaks the discount limits configured in Settings.
+// The server checks the PIN and signs the approval that goes with the order.
+export const ManagerApproval: React.FC<ManagerApprovalProps> = ({ isOpen, reasons, settings, request, onApproved, onCancel }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPin('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const canOverride = settings.managerPinSet;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+    try {
+      onApproved(await ApiService.approveDiscount({ ...request, pin: pin.trim() }));
+    } catch (err) {
+      const status = (err as ApiError)?.status;
+      if (OrderOutbox.isOfflineError(err)) {
+        setError('Approval needs a connection to the server. Reduce the discount to sell offline.');
+      } else if (status === 403) {
+        setError('Incorrect PIN');
+        setPin('');
+      } else if (status === 429) {
+        setError('Too many attempts. Try again in a few minutes.');
+        setPin('');
+      } else {
+        setError((err as ApiError)?.message || 'Approval failed');
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-6">
+      <form onSubmit={handleSubmit} className="bg-surface rounded-2xl shadow-strong w-full max-w-sm p-6">
+        <div className="flex items-center gap-2 mb-2">
+          <ShieldAlert className="h-5 w-5 text-primary" />
+          <h3 className="font-display text-lg font-semibold text-gray-900">Manager approval</h3>
+        </div>
+        <ul className="text-sm text-accent-600 mb-4 list-disc pl-5 space-y-1">
+          {reasons.map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+        {canOverride ? (
+          <div className="relative mb-2">
+            <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+            <input
+              type="password"
+              inputMode="numeric"
+              autoFocus
+              value={pin}
+              onChange={(e) => { setPin(e.target.value); setError(null); }}
+              placeholder="Manager PIN"
+              className="input-fieldIcon pl-12"
+              autoComplete="off"
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-accent-500 mb-2">No manager PIN is set. Add one in Settings to allow overrides, or reduce the discount.</p>
+        )}
+        {error && <p className="text-xs text-primary mb-2">{error}</p>}
+        <div className="flex justify-end gap-3 mt-4">
+          <button type="button" onClick={onCancel} className="px-4 py-2 rounded-lg border border-gray-200 text-accent-600 hover:bg-gray-50">Cancel</button>
+          {canOverride && (
+            <button type="submit" disabled={isChecking || !pin.trim()} className="px-4 py-2 rounded-lg btn-primary disabled:opacity-50">
+              {isChecking ? 'Checking...' : 'Approve'}
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,11 +1,13 @@
 import React from 'react';
-import { Package, ShoppingCart, BarChart3, LogOut } from 'lucide-react';
+import { Package, ShoppingCart, BarChart3, LogOut, CloudOff } from 'lucide-react';
 import { ActiveTab } from '../types';
 
 interface NavigationProps {
   activeTab: ActiveTab;
   onTabChange: (tab: ActiveTab) => void;
   cartItemsCount: number;
+  pendingSyncCount?: number; // orders waiting in the offline outbox
+  onSyncPending?: () => void;
   onLogout?: () => void;
 }
 
@@ -13,6 +15,8 @@ export const Navigation: React.FC<NavigationProps> = ({
   activeTab,
   onTabChange,
   cartItemsCount,
+  pendingSyncCount = 0,
+  onSyncPending,
   onLogout
 }) => {
   const tabs = [
@@ -46,6 +50,17 @@ export const Navigation: React.FC<NavigationProps> = ({
             </button>
           ))}
         </div>
+        {pendingSyncCount > 0 && (
+          <button
+            onClick={onSyncPending}
+            className="ml-3 flex items-center gap-1.5 px-3 py-2 rounded-xl bg-secondary/20 text-secondary/80 text-xs font-semibold hover:bg-secondary/30"
+            title="Orders saved offline – tap to sync now"
+            aria-label={`${pendingSyncCount} orders pending sync`}
+          >
+            <CloudOff className="h-4 w-4" />
+            <span className="tabular-nums">{pendingSyncCount}</span>
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Search } from 'lucide-react';
+import { Product } from '../types';
+import { ApiService } from '../services/api';
+
+interface ProductPickerProps {
+  onPick: (product: Product, size: string) => void;
+  placeholder?: string;
+}
+
+// Search-as-you-type product lookup followed by an in-stock size choice
+export const ProductPicker: React.FC<ProductPickerProps> = ({ onPick, placeholder = 'Search product...' }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<Product[]>([]);
+  const [pickedProduct, setPickedProduct] = useState<Product | null>(null);
+
+  useEffect(() => {
+    if (searchTerm.trim().length < 2) {
+      setSearchResults([]);
+      return;
+    }
+    const controller = new AbortController();
+    const h = setTimeout(() => {
+      ApiService.searchProducts({ q: searchTerm.trim(), limit: 8 }, { signal: controller.signal })
+        .then((res) => {
+          const list: Product[] = Array.isArray(res?.data) ? res.data : Array.isArray(res?.products) ? res.products : Array.isArray(res) ? res : [];
+          setSearchResults(list);
+        })
+        .catch((err) => {
+          if (err?.code !== 'ABORTED') console.error('Product search failed:', err);
+        });
+    }, 300);
+    return () => {
+      clearTimeout(h);
+      controller.abort();
+    };
+  }, [searchTerm]);
+
+  const handlePickSize = (product: Product, size: string) => {
+    onPick(product, size);
+    setPickedProduct(null);
+    setSearchTerm('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => { setSearchTerm(e.target.value); setPickedProduct(null); }}
+          placeholder={placeholder}
+          className="input-fieldIcon pl-12"
+        />
+      </div>
+      {pickedProduct ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600">{pickedProduct.name}:</span>
+          {pickedProduct.sizes.filter(s => s.quantity > 0).map(s => (
+            <button
+              key={s.size}
+              type="button"
+              onClick={() => handlePickSize(pickedProduct, s.size)}
+              className="px-3 py-1.5 rounded-lg border border-gray-200 text-sm hover:bg-gray-50"
+            >{s.size} <span className="text-gray-400">({s.quantity})</span></button>
+          ))}
+          {!pickedProduct.sizes.some(s => s.quantity > 0) && <span className="text-sm text-red-600">Out of stock</span>}
+        </div>
+      ) : searchResults.length > 0 && (
+        <div className="border border-gray-100 rounded-lg divide-y divide-gray-100 max-h-48 overflow-y-auto">
+          {searchResults.map(p => (
+            <button
+              key={p._id}
+              type="button"
+              onClick={() => setPickedProduct(p)}
+              className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50 flex justify-between"
+            >
+              <span>{p.name}</span>
+              <span className="text-gray-500">₹{p.retailPrice}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,16 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { Search, ShoppingCart, Package, Filter } from 'lucide-react';
-import { Product, ListParams } from '../types';
+import { Search, ShoppingCart, Package, Filter, ScanBarcode, Camera } from 'lucide-react';
+import { Product, ListParams, ApiError } from '../types';
 import { BurgerMenu } from './BurgerMenu';
 import { ActiveTab } from '../types';
 import { ApiService } from '../services/api';
+import { InventoryFeed } from '../services/inventoryFeed';
+import { StockLevels } from '../utils/stockLevels';
 import { Loader } from './ui/Loader';
 import { ErrorBanner } from './ui/ErrorBanner';
+import { useToast } from './ui/Toast';
+import { CameraScanner } from './BarcodeScanner';
+import { isCameraScanSupported, useBarcodeScanner } from '../utils/barcode';
 
 interface ProductsDashboardProps {
   products: Product[]; // still accepted for backward compatibility
@@ -36,6 +41,10 @@ export const ProductsDashboard: React.FC<ProductsDashboardProps> = ({
   const [totalCount, setTotalCount] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { show } = useToast();
+  const [scanMode, setScanMode] = useState(false);
+  const [showCameraScanner, setShowCameraScanner] = useState(false);
+  const [isLookingUpBarcode, setIsLookingUpBarcode] = useState(false);
 
   // URL param sync removed: state is now purely in-memory (no page/sort/search params in the address bar)
   useMemo(() => { /* intentionally empty - previous URL hydration removed */ }, []);
@@ -87,8 +96,68 @@ export const ProductsDashboard: React.FC<ProductsDashboardProps> = ({
   return () => controller.abort();
   }, [listState.page, listState.pageSize, debouncedQ, listState.sortBy, listState.sortDir]);
 
+  // The page is fetched here rather than passed in, so live stock changes are applied to it directly
+  useEffect(() => InventoryFeed.subscribe(levels => {
+    setServerProducts(prev => (prev ? StockLevels.patchProducts(prev, levels) : prev));
+    setSelectedProduct(prev => (prev ? StockLevels.patchProducts([prev], levels)[0] : prev));
+  }), []);
+
   const dataSource: Product[] = serverProducts ?? products ?? [];
 
+  // Barcode lookup: loaded lists first, then the search endpoint for products outside the current page.
+  // A size-level barcode pins the variant; a product-level barcode leaves the size open.
+  const findProductByBarcode = async (code: string): Promise<{ product: Product; size?: string } | undefined> => {
+    const match = (list: Product[]) => {
+      for (const p of list) {
+        const variant = (p.sizes || []).find(s => (s.barcode || '').trim() === code || (s.sku || '').trim() === code);
+        if (variant) return { product: p, size: variant.size };
+      }
+      const product = list.find(p => (p.barcode || '').trim() === code);
+      return product ? { product } : undefined;
+    };
+    const local = match(serverProducts || []) || match(products || []);
+    if (local) return local;
+    const res = await ApiService.searchProducts({ q: code, limit: 10 });
+    const list: Product[] = Array.isArray(res?.data)
+      ? res.data
+      : Array.isArray(res?.products)
+        ? res.products
+        : Array.isArray(res) ? res : [];
+    return match(list);
+  };
+
+  const handleBarcodeScan = async (raw: string) => {
+    const code = raw.trim();
+    if (!code || isLookingUpBarcode) return;
+    setShowCameraScanner(false);
+    setIsLookingUpBarcode(true);
+    try {
+      const found = await findProductByBarcode(code);
+      if (!found) {
+        show(`No product found for barcode ${code}`, { type: 'warning' });
+        return;
+      }
+      const { product, size } = found;
+      const inStock = product.sizes.filter(s => s.quantity > 0 && (!size || s.size === size));
+      if (inStock.length === 0) {
+        show(`${product.name}${size ? ` (${size})` : ''} is out of stock`, { type: 'warning' });
+      } else if (inStock.length === 1) {
+        onAddToCart(product, inStock[0].size);
+        show(`Added ${product.name} (${inStock[0].size})`, { type: 'success', duration: 1500 });
+      } else {
+        // Several sizes available: let the cashier pick
+        setSelectedProduct(product);
+        setShowSizeModal(true);
+      }
+    } catch (err) {
+      show((err as ApiError)?.message || 'Barcode lookup failed', { type: 'error' });
+    } finally {
+      setIsLookingUpBarcode(false);
+    }
+  };
+
+  useBarcodeScanner(scanMode && !showSizeModal, handleBarcodeScan);
+
   const categories = useMemo(
     () => Array.from(new Set((dataSource || []).map(p => p.category).filter(Boolean))).sort(),
     [dataSource]
@@ -165,9 +234,37 @@ export const ProductsDashboard: React.FC<ProductsDashboardProps> = ({
               <h1 className="font-display text-2xl font-semibold tracking-tight text-gray-900">Products</h1>
               <p className="text-accent-400 text-sm mt-1">{filteredProducts.length} visible {filteredProducts.length !== total && total > 0 && (<span className="text-accent-300">· of {total}</span>)} </p>
             </div>
-            <BurgerMenu onNavigate={onNavigate} onLogout={onLogout} />
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setScanMode(v => !v)}
+                aria-pressed={scanMode}
+                title={scanMode ? 'Exit scan mode' : 'Scan barcodes'}
+                className={`p-3 rounded-xl transition-colors ${scanMode ? 'bg-primary/10 text-primary' : 'text-accent-600 hover:text-gray-900 hover:bg-gray-50'}`}
+              >
+                <ScanBarcode className="h-6 w-6" />
+              </button>
+              <BurgerMenu onNavigate={onNavigate} onLogout={onLogout} />
+            </div>
           </div>
 
+          {scanMode && (
+            <div className="flex items-center justify-between gap-3 rounded-xl border border-primary/20 bg-primary/5 px-4 py-3">
+              <div className="flex items-center gap-2 text-sm text-primary font-medium">
+                <ScanBarcode className="h-4 w-4" />
+                <span>{isLookingUpBarcode ? 'Looking up barcode…' : 'Scan mode on – scan a product barcode to add it to the cart'}</span>
+              </div>
+              {isCameraScanSupported() && (
+                <button
+                  onClick={() => setShowCameraScanner(true)}
+                  className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-primary text-white text-xs font-medium hover:bg-primary/90"
+                >
+                  <Camera className="h-4 w-4" />
+                  <span>Camera</span>
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Unified filter bar */}
           <div className="flex flex-col md:flex-row gap-3 md:items-center">
             {/* Search */}
@@ -348,6 +445,12 @@ export const ProductsDashboard: React.FC<ProductsDashboardProps> = ({
         </div>
       )}
 
+      <CameraScanner
+        isOpen={showCameraScanner}
+        onDetected={handleBarcodeScan}
+        onClose={() => setShowCameraScanner(false)}
+      />
+
       {/* Size Selection Modal */}
       {showSizeModal && selectedProduct && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-6">
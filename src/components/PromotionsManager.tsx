@@ -0,0 +1,379 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, Tag, Trash2, Clock, X } from 'lucide-react';
+import { ApiError, Product, Promotion, PromotionInput, PromotionRule, PromotionType } from '../types';
+import { ApiService } from '../services/api';
+import { Promotions } from '../utils/promotions';
+import { useToast } from './ui/Toast';
+
+interface PromotionsManagerProps {
+  promotions: Promotion[];
+  products: Product[];
+  onPromotionsChange: () => void;
+}
+
+const RULE_TYPES: { value: PromotionType; label: string }[] = [
+  { value: 'CATEGORY_PERCENT', label: '% off category' },
+  { value: 'BRAND_PERCENT', label: 'Brand-wide sale' },
+  { value: 'BUY_X_GET_Y', label: 'Buy X get Y' },
+  { value: 'BUNDLE_PRICE', label: 'Bundle price' },
+];
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const emptyForm = {
+  name: '',
+  type: 'CATEGORY_PERCENT' as PromotionType,
+  category: '',
+  brand: '',
+  percent: '',
+  buyQty: '2',
+  getQty: '1',
+  productIds: [] as string[],
+  bundlePrice: '',
+  startsAt: '',
+  endsAt: '',
+  happyHour: false,
+  start: '16:00',
+  end: '18:00',
+  days: [] as number[],
+};
+
+export const PromotionsManager: React.FC<PromotionsManagerProps> = ({ promotions, products, onPromotionsChange }) => {
+  const { show } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const categories = useMemo(() => Array.from(new Set(products.map(p => p.category).filter(Boolean))).sort(), [products]);
+  const brands = useMemo(() => Array.from(new Set(products.map(p => p.brand || '').filter(Boolean))).sort(), [products]);
+  const productName = (id: string) => products.find(p => p._id === id)?.name || id;
+
+  const buildRule = (): PromotionRule | string => {
+    const percent = parseFloat(form.percent);
+    switch (form.type) {
+      case 'CATEGORY_PERCENT':
+        if (!form.category) return 'Choose a category';
+        if (!(percent > 0 && percent <= 100)) return 'Percentage must be between 1 and 100';
+        return { type: 'CATEGORY_PERCENT', category: form.category, percent };
+      case 'BRAND_PERCENT':
+        if (!form.brand) return 'Choose a brand';
+        if (!(percent > 0 && percent <= 100)) return 'Percentage must be between 1 and 100';
+        return { type: 'BRAND_PERCENT', brand: form.brand, percent };
+      case 'BUY_X_GET_Y': {
+        const buyQty = parseInt(form.buyQty, 10);
+        const getQty = parseInt(form.getQty, 10);
+        if (!(buyQty > 0 && getQty > 0)) return 'Buy and get quantities must be at least 1';
+        return { type: 'BUY_X_GET_Y', buyQty, getQty, category: form.category || undefined };
+      }
+      case 'BUNDLE_PRICE': {
+        const price = parseFloat(form.bundlePrice);
+        if (form.productIds.length < 2) return 'A bundle needs at least two products';
+        if (!(price > 0)) return 'Enter the bundle price';
+        return { type: 'BUNDLE_PRICE', productIds: form.productIds, price };
+      }
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      show('Promotion name is required', { type: 'warning' });
+      return;
+    }
+    const rule = buildRule();
+    if (typeof rule === 'string') {
+      show(rule, { type: 'warning' });
+      return;
+    }
+    const payload: PromotionInput = {
+      name: form.name.trim(),
+      rule,
+      active: true,
+      startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`).toISOString() : undefined,
+      endsAt: form.endsAt ? new Date(`${form.endsAt}T23:59:59`).toISOString() : undefined,
+      happyHour: form.happyHour ? { start: form.start, end: form.end, days: form.days.length ? form.days : undefined } : undefined,
+    };
+
+    setIsSaving(true);
+    try {
+      await ApiService.createPromotion(payload);
+      show('Promotion created', { type: 'success' });
+      setForm(emptyForm);
+      setShowForm(false);
+      onPromotionsChange();
+    } catch (err) {
+      console.error('Failed to create promotion:', err);
+      show((err as ApiError).message || 'Failed to create promotion', { type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (promotion: Promotion) => {
+    try {
+      await ApiService.updatePromotion(promotion._id, { active: !promotion.active });
+      onPromotionsChange();
+    } catch (err) {
+      show((err as ApiError).message || 'Failed to update promotion', { type: 'error' });
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!confirm(`Delete promotion "${promotion.name}"?`)) return;
+    try {
+      await ApiService.deletePromotion(promotion._id);
+      show('Promotion deleted', { type: 'success' });
+      onPromotionsChange();
+    } catch (err) {
+      show((err as ApiError).message || 'Failed to delete promotion', { type: 'error' });
+    }
+  };
+
+  const describeSchedule = (promotion: Promotion) => {
+    const parts: string[] = [];
+    if (promotion.startsAt || promotion.endsAt) {
+      const fmt = (d?: string) => (d ? new Date(d).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' }) : '…');
+      parts.push(`${fmt(promotion.startsAt)} – ${fmt(promotion.endsAt)}`);
+    }
+    if (promotion.happyHour) {
+      const days = promotion.happyHour.days?.length ? ` ${promotion.happyHour.days.map(d => DAYS[d]).join(', ')}` : '';
+      parts.push(`${promotion.happyHour.start}–${promotion.happyHour.end}${days}`);
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="bg-surface border-b border-gray-100 sticky top-0 z-30">
+        <div className="px-5 lg:px-8 py-4 flex items-end justify-between gap-3">
+          <div>
+            <h1 className="font-display text-2xl font-semibold text-gray-900">Promotions</h1>
+            <p className="text-accent-400 text-sm mt-1">Rules applied automatically at checkout</p>
+          </div>
+          <button
+            onClick={() => setShowForm(v => !v)}
+            className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-primary text-white text-sm font-medium shadow-sm hover:bg-primary/90"
+          >
+            {showForm ? <X className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            {showForm ? 'Close' : 'New Promotion'}
+          </button>
+        </div>
+      </div>
+
+      <div className="px-5 lg:px-8 py-6 pb-32 max-w-3xl space-y-6">
+        {showForm && (
+          <form onSubmit={handleCreate} className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm space-y-4">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Promotion name (shown on the bill)"
+              className="input-field"
+            />
+            <select
+              value={form.type}
+              onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as PromotionType }))}
+              className="input-field"
+              aria-label="Rule type"
+            >
+              {RULE_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+            </select>
+
+            {(form.type === 'CATEGORY_PERCENT' || form.type === 'BUY_X_GET_Y') && (
+              <select
+                value={form.category}
+                onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value }))}
+                className="input-field"
+                aria-label="Category"
+              >
+                <option value="">{form.type === 'BUY_X_GET_Y' ? 'Any category' : 'Choose category'}</option>
+                {categories.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            )}
+            {form.type === 'BRAND_PERCENT' && (
+              <select
+                value={form.brand}
+                onChange={(e) => setForm(prev => ({ ...prev, brand: e.target.value }))}
+                className="input-field"
+                aria-label="Brand"
+              >
+                <option value="">Choose brand</option>
+                {brands.map(b => <option key={b} value={b}>{b}</option>)}
+              </select>
+            )}
+            {(form.type === 'CATEGORY_PERCENT' || form.type === 'BRAND_PERCENT') && (
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={form.percent}
+                onChange={(e) => setForm(prev => ({ ...prev, percent: e.target.value }))}
+                placeholder="Percent off"
+                className="input-field"
+              />
+            )}
+            {form.type === 'BUY_X_GET_Y' && (
+              <div className="grid grid-cols-2 gap-3">
+                <input
+                  type="number"
+                  min={1}
+                  value={form.buyQty}
+                  onChange={(e) => setForm(prev => ({ ...prev, buyQty: e.target.value }))}
+                  placeholder="Buy"
+                  className="input-field"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={form.getQty}
+                  onChange={(e) => setForm(prev => ({ ...prev, getQty: e.target.value }))}
+                  placeholder="Get free"
+                  className="input-field"
+                />
+              </div>
+            )}
+            {form.type === 'BUNDLE_PRICE' && (
+              <div className="space-y-3">
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const id = e.target.value;
+                    if (id) setForm(prev => ({ ...prev, productIds: prev.productIds.includes(id) ? prev.productIds : [...prev.productIds, id] }));
+                  }}
+                  className="input-field"
+                  aria-label="Add product to bundle"
+                >
+                  <option value="">Add product to bundle...</option>
+                  {products.map(p => <option key={p._id} value={p._id}>{p.name}</option>)}
+                </select>
+                {form.productIds.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {form.productIds.map(id => (
+                      <span key={id} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-gray-100 text-sm text-accent-600">
+                        {productName(id)}
+                        <button
+                          type="button"
+                          onClick={() => setForm(prev => ({ ...prev, productIds: prev.productIds.filter(p => p !== id) }))}
+                          aria-label="Remove from bundle"
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <input
+                  type="number"
+                  min={0}
+                  value={form.bundlePrice}
+                  onChange={(e) => setForm(prev => ({ ...prev, bundlePrice: e.target.value }))}
+                  placeholder="Bundle price (₹)"
+                  className="input-field"
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-accent-500 mb-1">Starts</label>
+                <input type="date" value={form.startsAt} onChange={(e) => setForm(prev => ({ ...prev, startsAt: e.target.value }))} className="input-compact w-full" />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-accent-500 mb-1">Ends</label>
+                <input type="date" value={form.endsAt} onChange={(e) => setForm(prev => ({ ...prev, endsAt: e.target.value }))} className="input-compact w-full" />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.happyHour}
+                onChange={(e) => setForm(prev => ({ ...prev, happyHour: e.target.checked }))}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              Happy hour (only during a time window)
+            </label>
+            {form.happyHour && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <input type="time" value={form.start} onChange={(e) => setForm(prev => ({ ...prev, start: e.target.value }))} className="input-compact" />
+                  <span className="text-accent-400">to</span>
+                  <input type="time" value={form.end} onChange={(e) => setForm(prev => ({ ...prev, end: e.target.value }))} className="input-compact" />
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {DAYS.map((day, i) => {
+                    const active = form.days.includes(i);
+                    return (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => setForm(prev => ({ ...prev, days: active ? prev.days.filter(d => d !== i) : [...prev.days, i] }))}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-medium border ${active ? 'border-primary bg-primary/5 text-primary' : 'border-gray-200 text-accent-600'}`}
+                        aria-pressed={active}
+                      >{day}</button>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-accent-400">No days selected means every day.</p>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full inline-flex items-center justify-center gap-2 px-5 py-3 rounded-xl bg-primary text-white font-medium shadow-sm hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Tag className="h-5 w-5" />
+              <span>{isSaving ? 'Saving...' : 'Create Promotion'}</span>
+            </button>
+          </form>
+        )}
+
+        {promotions.length === 0 && !showForm && (
+          <div className="text-center py-24">
+            <div className="inline-flex items-center justify-center w-20 h-20 bg-accent-100 rounded-3xl mb-6">
+              <Tag className="h-10 w-10 text-accent-400" />
+            </div>
+            <h3 className="font-display text-xl font-semibold text-gray-900 mb-2">No promotions yet</h3>
+            <p className="text-accent-500 text-sm max-w-sm mx-auto">Create a rule and it will be applied to matching cart lines automatically.</p>
+          </div>
+        )}
+
+        {promotions.length > 0 && (
+          <div className="bg-white rounded-3xl border border-gray-100 shadow-sm divide-y divide-gray-100">
+            {promotions.map(promotion => {
+              const live = Promotions.isActive(promotion);
+              const schedule = describeSchedule(promotion);
+              return (
+                <div key={promotion._id} className="px-5 py-4 flex items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {promotion.name}
+                      {live && <span className="ml-2 text-[11px] font-semibold text-green-600 uppercase">Live</span>}
+                    </p>
+                    <p className="text-sm text-accent-500">{Promotions.describe(promotion.rule)}</p>
+                    {schedule && (
+                      <p className="text-xs text-accent-400 flex items-center gap-1 mt-0.5"><Clock className="h-3 w-3" />{schedule}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleToggle(promotion)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium border ${promotion.active ? 'border-green-200 bg-green-50 text-green-700' : 'border-gray-200 text-accent-500'}`}
+                    aria-pressed={promotion.active}
+                  >{promotion.active ? 'Enabled' : 'Disabled'}</button>
+                  <button
+                    onClick={() => handleDelete(promotion)}
+                    className="p-2 text-accent-400 hover:text-primary hover:bg-red-50 rounded-lg transition-colors"
+                    aria-label="Delete promotion"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
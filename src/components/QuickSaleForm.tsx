@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { PackagePlus } from 'lucide-react';
+import { MiscItemInput } from '../types';
+
+interface QuickSaleFormProps {
+  inclusive: boolean; // the shop's pricing mode; the price is entered the same way as catalog prices
+  onAdd: (input: MiscItemInput) => void;
+  onCancel: () => void;
+}
+
+const GST_SLABS = [0, 5, 12, 18, 28];
+
+// Open-price line for goods that are not in the catalog; nothing is deducted from stock
+export const QuickSaleForm: React.FC<QuickSaleFormProps> = ({ inclusive, onAdd, onCancel }) => {
+  const [description, setDescription] = useState('');
+  const [price, setPrice] = useState('');
+  const [gst, setGst] = useState('5'); // the usual slab for apparel
+  const [hsnSac, setHsnSac] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(price);
+    if (!description.trim()) {
+      setError('Enter a description');
+      return;
+    }
+    if (!(amount > 0)) {
+      setError('Enter a price above ₹0');
+      return;
+    }
+    if (hsnSac.trim() && !/^\d{4,8}$/.test(hsnSac.trim())) {
+      setError('HSN/SAC is 4 to 8 digits');
+      return;
+    }
+    onAdd({ description, price: Math.round(amount * 100) / 100, gst: Number(gst), hsnSac });
+    setDescription('');
+    setPrice('');
+    setHsnSac('');
+    setError(null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white border border-gray-100 rounded-3xl p-5 shadow-sm space-y-3">
+      <h3 className="font-display text-base font-semibold text-gray-900">Quick sale</h3>
+      <input
+        type="text"
+        value={description}
+        onChange={(e) => { setDescription(e.target.value); setError(null); }}
+        placeholder="Description (e.g. Alteration, Loose fabric)"
+        className="input-field"
+        maxLength={80}
+        autoFocus
+      />
+      <div className="grid grid-cols-3 gap-3">
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          inputMode="decimal"
+          value={price}
+          onChange={(e) => { setPrice(e.target.value); setError(null); }}
+          placeholder={`Price ₹ (${inclusive ? 'incl.' : 'excl.'} GST)`}
+          className="input-compact"
+        />
+        <select value={gst} onChange={(e) => setGst(e.target.value)} className="input-compact" aria-label="GST rate">
+          {GST_SLABS.map(rate => <option key={rate} value={rate}>GST {rate}%</option>)}
+        </select>
+        <input
+          type="text"
+          inputMode="numeric"
+          value={hsnSac}
+          onChange={(e) => { setHsnSac(e.target.value); setError(null); }}
+          placeholder="HSN (optional)"
+          className="input-compact"
+        />
+      </div>
+      {error && <p className="text-xs text-primary">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="inline-flex items-center gap-2 px-4 py-3 rounded-xl bg-primary text-white text-sm font-medium shadow-sm hover:bg-primary/90"
+        >
+          <PackagePlus className="h-4 w-4" />
+          Add to cart
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-3 rounded-xl text-sm font-medium border border-gray-200 text-accent-600 hover:bg-gray-50"
+        >Cancel</button>
+      </div>
+    </form>
+  );
+};
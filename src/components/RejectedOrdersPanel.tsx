@@ -0,0 +1,46 @@
+import React from 'react';
+import { AlertTriangle, Clock, Trash2 } from 'lucide-react';
+import { PendingOrder } from '../types';
+
+interface RejectedOrdersPanelProps {
+  orders: PendingOrder[];
+  onDiscard: (id: string) => void;
+}
+
+// Offline sales the server refused on replay; they are not retried, so the cashier has to re-ring or discard them
+export const RejectedOrdersPanel: React.FC<RejectedOrdersPanelProps> = ({ orders, onDiscard }) => {
+  if (orders.length === 0) return null;
+  return (
+    <div className="bg-white border border-red-100 rounded-3xl shadow-sm">
+      <h3 className="font-display text-base font-semibold text-gray-900 px-5 pt-5 pb-1 flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4 text-primary" />
+        Offline sales not recorded
+      </h3>
+      <p className="text-xs text-accent-500 px-5 pb-2">The server refused these sales. Ring them up again if needed, then discard them.</p>
+      <div className="divide-y divide-gray-100">
+        {orders.map(order => {
+          const units = order.payload.items.reduce((s, i) => s + i.qty, 0);
+          const value = order.payload.total ?? order.payload.items.reduce((s, i) => s + i.price * i.qty, 0) - (order.payload.discount || 0);
+          return (
+            <div key={order.id} className="px-5 py-3 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate">{order.lastError || 'Rejected by the server'}</p>
+                <p className="text-xs text-accent-400 flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  {new Date(order.createdAt).toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })} · {units} item{units === 1 ? '' : 's'} · ₹{value}
+                </p>
+              </div>
+              <button
+                onClick={() => onDiscard(order.id)}
+                className="p-2 text-accent-400 hover:text-primary hover:bg-red-50 rounded-lg transition-colors"
+                aria-label="Discard rejected sale"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
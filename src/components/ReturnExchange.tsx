@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+import { Minus, Plus, Trash2, Undo2, X } from 'lucide-react';
+import { ExchangeItem, Order, OrderItem, Product, RefundMethod, ReturnItem, ShopSettings } from '../types';
+import { ApiService } from '../services/api';
+import { ProductPicker } from './ProductPicker';
+import { Tax } from '../utils/tax';
+
+interface ReturnExchangeProps {
+  order: Order;
+  settings?: ShopSettings;
+  onCompleted: () => void;
+  onCancel: () => void;
+}
+
+const productId = (item: OrderItem) => (typeof item.product === 'object' ? item.product._id : item.product);
+const productName = (item: OrderItem) => (typeof item.product === 'object' ? item.product.name : item.name || 'Product');
+
+// Exchange lines keep the GST rate of the product they were picked from; it is not sent to the server
+type ExchangeLine = ExchangeItem & { gstRate: number };
+
+// Units of each order line already returned by earlier returns
+const returnedQtyByLine = (order: Order) => {
+  const map = new Map<number, number>();
+  (order.returns || []).forEach(r => r.items.forEach(it => {
+    map.set(it.itemIndex, (map.get(it.itemIndex) || 0) + it.qty);
+  }));
+  return map;
+};
+
+export const ReturnExchange: React.FC<ReturnExchangeProps> = ({ order, settings, onCompleted, onCancel }) => {
+  const [returnQty, setReturnQty] = useState<Record<number, number>>({});
+  const [exchangeItems, setExchangeItems] = useState<ExchangeLine[]>([]);
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('CASH');
+  const [restock, setRestock] = useState(true);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const alreadyReturned = useMemo(() => returnedQtyByLine(order), [order]);
+
+  // Each line's paid amount comes from the same GST engine the sale was billed with: promotions, line
+  // discounts and the order-level discount are already taken off, and GST is included in either pricing mode
+  const paid = Tax.compute(
+    order.items.map(item => ({
+      price: item.price,
+      qty: item.qty,
+      rate: Tax.rateOf(typeof item.product === 'object' ? item.product : item),
+      discount: (item.promoDiscount || 0) + (item.lineDiscount || 0),
+    })),
+    order.discount || 0,
+    Tax.inclusive(order.pricesIncludeGst === undefined ? settings : order)
+  );
+
+  const returnLines: ReturnItem[] = order.items
+    .map((item, index) => ({ item, index, qty: returnQty[index] || 0 }))
+    .filter(({ qty }) => qty > 0)
+    .map(({ item, index, qty }) => ({
+      itemIndex: index,
+      product: productId(item),
+      size: item.size,
+      qty,
+      amount: Math.round((paid.lines[index].total * qty * 100) / item.qty) / 100,
+    }));
+
+  const returnValue = returnLines.reduce((sum, l) => sum + l.amount, 0);
+  // Exchange items are a new sale, so they are priced the way the shop bills today
+  const exchange = Tax.compute(
+    exchangeItems.map(l => ({ price: l.price, qty: l.qty, rate: l.gstRate })),
+    0,
+    Tax.inclusive(settings)
+  );
+  const exchangeValue = exchange.total;
+  const netRefund = Math.round((returnValue - exchangeValue) * 100) / 100;
+
+  const changeReturnQty = (index: number, delta: number) => {
+    const max = order.items[index].qty - (alreadyReturned.get(index) || 0);
+    setReturnQty(prev => ({ ...prev, [index]: Math.max(0, Math.min(max, (prev[index] || 0) + delta)) }));
+  };
+
+  const addExchangeItem = (product: Product, size: string) => {
+    const sizeEntry = product.sizes.find(s => s.size === size);
+    setExchangeItems(prev => {
+      const existing = prev.find(l => l.product === product._id && l.size === size);
+      if (existing) {
+        if (existing.qty >= (sizeEntry?.quantity || 0)) return prev;
+        return prev.map(l => (l === existing ? { ...l, qty: l.qty + 1 } : l));
+      }
+      return [...prev, {
+        product: product._id,
+        name: product.name,
+        size,
+        qty: 1,
+        price: sizeEntry?.price ?? product.retailPrice,
+        gstRate: Tax.rateOf(product),
+      }];
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!returnLines.length) {
+      alert('Select at least one item to return');
+      return;
+    }
+    if (netRefund < 0 && !confirm(`Customer needs to pay ₹${Math.abs(netRefund)} for the exchange. Continue?`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await ApiService.createReturn(order._id, {
+        items: returnLines,
+        exchangeItems: exchangeItems.length ? exchangeItems.map(({ product, name, size, qty, price }) => ({ product, name, size, qty, price })) : undefined,
+        refundMethod,
+        restock,
+        reason: reason.trim() || undefined,
+      });
+      alert(exchangeItems.length ? 'Exchange recorded successfully' : 'Return recorded successfully');
+      onCompleted();
+    } catch (error) {
+      console.error('Failed to record return:', error);
+      alert((error as { message?: string })?.message || 'Failed to record return');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-gray-900 flex items-center gap-2">
+          <Undo2 className="h-4 w-4" />
+          Return / Exchange
+        </h3>
+        <button onClick={onCancel} className="p-1.5 hover:bg-gray-100 rounded-lg" aria-label="Close return form">
+          <X className="h-4 w-4 text-gray-500" />
+        </button>
+      </div>
+
+      {/* Lines to return */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">Items to return</p>
+        {order.items.map((item, index) => {
+          const returnable = item.qty - (alreadyReturned.get(index) || 0);
+          const qty = returnQty[index] || 0;
+          return (
+            <div key={index} className="flex items-center justify-between text-sm gap-3">
+              <div className="min-w-0">
+                <p className="text-gray-700 truncate">{productName(item)} · {item.size}</p>
+                <p className="text-xs text-gray-500">
+                  ₹{item.price} × {item.qty}{alreadyReturned.get(index) ? ` · ${alreadyReturned.get(index)} returned` : ''}
+                </p>
+              </div>
+              <div className="flex items-center bg-gray-50 rounded-lg p-1 shrink-0">
+                <button
+                  onClick={() => changeReturnQty(index, -1)}
+                  disabled={qty <= 0}
+                  className="p-1.5 rounded hover:bg-gray-200 disabled:opacity-40"
+                  aria-label="Decrease return quantity"
+                >
+                  <Minus className="h-3.5 w-3.5" />
+                </button>
+                <span className="w-8 text-center tabular-nums">{qty}</span>
+                <button
+                  onClick={() => changeReturnQty(index, 1)}
+                  disabled={qty >= returnable}
+                  className="p-1.5 rounded hover:bg-gray-200 disabled:opacity-40"
+                  aria-label="Increase return quantity"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        <label className="flex items-center gap-2 text-sm text-gray-600 pt-1">
+          <input type="checkbox" checked={restock} onChange={(e) => setRestock(e.target.checked)} className="h-4 w-4 rounded border-gray-300" />
+          Restore returned units to inventory
+        </label>
+      </div>
+
+      {/* Exchange */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">Exchange for (optional)</p>
+        {exchangeItems.map((line, i) => (
+          <div key={`${line.product}-${line.size}`} className="flex items-center justify-between text-sm">
+            <span className="text-gray-700">{line.name} · {line.size} × {line.qty}</span>
+            <div className="flex items-center gap-2">
+              <span className="text-gray-600">₹{exchange.lines[i].total}</span>
+              <button
+                onClick={() => setExchangeItems(prev => prev.filter((_, idx) => idx !== i))}
+                className="p-1 text-red-600 hover:bg-red-50 rounded"
+                aria-label="Remove exchange item"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+        <ProductPicker onPick={addExchangeItem} placeholder="Search replacement product..." />
+      </div>
+
+      {/* Refund */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">Refund as</p>
+        <div className="grid grid-cols-3 gap-2">
+          {[
+            { label: 'Cash', value: 'CASH' as const },
+            { label: 'UPI', value: 'UPI' as const },
+            { label: 'Credit Note', value: 'CREDIT_NOTE' as const },
+          ].map(btn => (
+            <button
+              key={btn.value}
+              type="button"
+              onClick={() => setRefundMethod(btn.value)}
+              className={`p-2.5 rounded-lg border-2 text-sm transition-colors ${refundMethod === btn.value ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 hover:border-gray-300'}`}
+            >{btn.label}</button>
+          ))}
+        </div>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+          className="input-field resize-none"
+          placeholder="Reason (optional)"
+        />
+      </div>
+
+      {/* Summary */}
+      <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-1">
+        <div className="flex justify-between"><span className="text-gray-600">Returned value</span><span>₹{returnValue}</span></div>
+        {exchangeValue > 0 && <div className="flex justify-between"><span className="text-gray-600">Exchange value</span><span>-₹{exchangeValue}</span></div>}
+        <div className="flex justify-between font-medium border-t border-gray-200 pt-1">
+          <span>{netRefund >= 0 ? 'Refund due' : 'Customer pays'}</span>
+          <span className={netRefund >= 0 ? 'text-red-600' : 'text-green-600'}>₹{Math.abs(netRefund)}</span>
+        </div>
+      </div>
+
+      <button
+        onClick={handleSubmit}
+        disabled={isSaving || !returnLines.length}
+        className="w-full flex items-center justify-center space-x-2 bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        <Undo2 className="h-4 w-4" />
+        <span>{isSaving ? 'Saving...' : exchangeItems.length ? 'Record Exchange' : 'Record Return'}</span>
+      </button>
+    </div>
+  );
+};
@@ -1,25 +1,44 @@
 import React, { useEffect, useState } from 'react';
-import { Calendar, DollarSign, TrendingUp, ShoppingBag, Phone, CreditCard, Banknote, Edit, X, Search, FileText } from 'lucide-react';
-import { Order } from '../types';
+import { Calendar, DollarSign, TrendingUp, ShoppingBag, Phone, Edit, X, Search, FileText, Undo2, Split, TicketPercent, Printer } from 'lucide-react';
+import { CouponUsage, InvoiceData, Order, PaymentMethod, Product, ShopSettings } from '../types';
 import { ApiService } from '../services/api';
 import { EditOrder } from './EditOrder';
 import { Loader } from './ui/Loader';
 import { ErrorBanner } from './ui/ErrorBanner';
+import { ConfirmDialog } from './ui/ConfirmDialog';
 import { useToast } from './ui/Toast';
 import { InvoiceGenerator } from '../utils/invoiceGenerator';
+import { InvoiceSchema } from '../utils/invoiceSchema';
+import { ReceiptGenerator } from '../utils/receiptGenerator';
+import { ThermalPrinter } from '../services/thermalPrinter';
+import { Payments } from '../utils/payments';
+import { Tenders } from '../utils/tenders';
+import { Loyalty } from '../utils/loyalty';
+import { Coupons } from '../utils/coupons';
 
-export const SalesHistory: React.FC = () => {
+interface SalesHistoryProps {
+  settings?: ShopSettings;
+  products?: Product[]; // names and GST rates for invoices built locally
+}
+
+export const SalesHistory: React.FC<SalesHistoryProps> = ({ settings, products = [] }) => {
   const { show } = useToast();
   const [orders, setOrders] = useState<Order[]>([]);
   const [analytics, setAnalytics] = useState({
     totalOrders: 0,
     totalRevenue: 0,
     totalProfit: 0,
-    avgOrderPrice: 0
+    avgOrderPrice: 0,
+    totalRefunds: 0,
+    revenueByTender: {} as Partial<Record<PaymentMethod, number>>,
+    couponUsage: [] as CouponUsage[],
+    // Figures the server left out and we computed from the orders on this page instead
+    pageOnly: { refunds: false, tenders: false, coupons: false }
   });
   const [isLoading, setIsLoading] = useState(true);
   const [filters, setFilters] = useState({
     paymentStatus: '' as '' | 'PENDING' | 'PAID' | 'CANCELLED',
+    paymentMethod: '' as '' | PaymentMethod,
     from: '',
     to: ''
   });
@@ -33,6 +52,9 @@ export const SalesHistory: React.FC = () => {
   // Local-only search (no URL param sync)
   const [q, setQ] = useState('');
   const [downloadingInvoice, setDownloadingInvoice] = useState<string | null>(null);
+  const [printingReceipt, setPrintingReceipt] = useState<string | null>(null);
+  // Rendered receipt waiting for a fresh click, once loading it outlasted the original one
+  const [pendingReceipt, setPendingReceipt] = useState<string | null>(null);
 
   // Push state -> URL and fetch (with abort on change)
   useEffect(() => {
@@ -45,6 +67,7 @@ export const SalesHistory: React.FC = () => {
       try {
         const response = await ApiService.getAllOrders({
           paymentStatus: (filters.paymentStatus || undefined) as 'PENDING' | 'PAID' | 'CANCELLED' | undefined,
+          paymentMethod: filters.paymentMethod || undefined,
           from: filters.from || undefined,
           to: filters.to || undefined,
           page,
@@ -55,12 +78,30 @@ export const SalesHistory: React.FC = () => {
         if (controller.signal.aborted) return;
         if (response?.orders) {
           setOrders(response.orders);
-          setAnalytics(response.analytics || {
-            totalOrders: response.orders.length,
-            totalProfit: response.orders.reduce((s: number, o: Order) => s + (o.profit || 0), 0),
-            totalRevenue: response.orders.reduce((s: number, o: Order) => s + (o.total || 0), 0),
-            avgOrderPrice: response.orders.length ? response.orders.reduce((s: number, o: Order) => s + (o.total || 0), 0) / response.orders.length : 0,
-          });
+          const pageRefunds = response.orders.reduce((s: number, o: Order) => s + getRefundTotal(o), 0);
+          setAnalytics(response.analytics
+            ? {
+              ...response.analytics,
+              totalRefunds: response.analytics.totalRefunds ?? pageRefunds,
+              revenueByTender: response.analytics.revenueByTender ?? Payments.revenueByTender(response.orders),
+              couponUsage: response.analytics.couponUsage ?? Coupons.usage(response.orders),
+              pageOnly: {
+                refunds: response.analytics.totalRefunds === undefined,
+                tenders: response.analytics.revenueByTender === undefined,
+                coupons: response.analytics.couponUsage === undefined,
+              },
+            }
+            : {
+              totalOrders: response.orders.length,
+              totalProfit: response.orders.reduce((s: number, o: Order) => s + (o.profit || 0), 0),
+              totalRevenue: response.orders.reduce((s: number, o: Order) => s + (o.total || 0), 0),
+              avgOrderPrice: response.orders.length ? response.orders.reduce((s: number, o: Order) => s + (o.total || 0), 0) / response.orders.length : 0,
+              totalRefunds: pageRefunds,
+              revenueByTender: Payments.revenueByTender(response.orders),
+              couponUsage: Coupons.usage(response.orders),
+              // Every figure comes from this page here, so none of them needs setting apart
+              pageOnly: { refunds: false, tenders: false, coupons: false },
+            });
           setTotalCount(response.pagination?.totalCount || response.orders.length);
         } else if (Array.isArray(response)) {
           setOrders(response as Order[]);
@@ -87,6 +128,11 @@ export const SalesHistory: React.FC = () => {
     setPage(p => p);
   };
 
+  // Net money handed back to customers (exchanges where the customer paid extra count as zero)
+  function getRefundTotal(order: Order) {
+    return (order.returns || []).reduce((sum, r) => sum + Math.max(0, r.refundAmount), 0);
+  }
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-IN', {
@@ -108,12 +154,18 @@ export const SalesHistory: React.FC = () => {
   };
 
   const handleCancelOrder = async (orderId: string) => {
-    if (!confirm('Are you sure you want to cancel this order? Inventory will be restored.')) {
+    const order = orders.find(o => o._id === orderId);
+    const reversal = [Loyalty.describeReversal(order?.loyalty), Coupons.describeRelease(order?.coupon)].filter(Boolean).join(', and ');
+    if (!confirm(`Are you sure you want to cancel this order? Inventory will be restored${reversal ? `, and ${reversal}` : ''}.`)) {
       return;
     }
 
     try {
       await ApiService.cancelOrder(orderId);
+      if (order?.coupon && !order.coupon.released) {
+        await ApiService.releaseCoupon(order.coupon.couponId, orderId)
+          .catch(err => console.error('Failed to release coupon:', err));
+      }
       alert('Order cancelled successfully');
       loadOrders();
     } catch (error) {
@@ -122,12 +174,46 @@ export const SalesHistory: React.FC = () => {
     }
   };
 
+  const loadInvoiceData = async (orderId: string): Promise<{ invoiceData: InvoiceData; builtLocally: boolean }> => {
+    const order = orders.find(o => o._id === orderId);
+    let invoiceData: InvoiceData;
+    let builtLocally = false;
+    try {
+      invoiceData = await ApiService.getInvoiceData(orderId, settings);
+    } catch (err) {
+      // Offline, endpoint down or a payload the decoder rejected: print from the order we already have
+      if (!order) throw err;
+      console.error('Invoice endpoint unavailable, building invoice locally:', err);
+      invoiceData = InvoiceSchema.fromOrder(order, settings, products);
+      builtLocally = true;
+    }
+    // Older invoice payloads omit the running balance; fetch it so the invoice can print it
+    if (order?.customerPhone && invoiceData.loyalty?.balance === undefined) {
+      try {
+        const account = await ApiService.getLoyaltyAccount(order.customerPhone);
+        invoiceData.loyalty = {
+          pointsEarned: 0,
+          pointsRedeemed: 0,
+          redeemValue: 0,
+          ...order.loyalty,
+          ...invoiceData.loyalty,
+          balance: account.balance,
+        };
+      } catch (err) {
+        console.error('Failed to load loyalty balance for invoice:', err);
+      }
+    }
+    return { invoiceData, builtLocally };
+  };
+
   const handleDownloadInvoice = async (orderId: string) => {
     setDownloadingInvoice(orderId);
     try {
-      const invoiceData = await ApiService.getInvoiceData(orderId);
-      await InvoiceGenerator.downloadInvoice(orderId, invoiceData);
-      show('Invoice generated successfully', { type: 'success' });
+      const { invoiceData, builtLocally } = await loadInvoiceData(orderId);
+      await InvoiceGenerator.downloadInvoice(orderId, invoiceData, settings);
+      show(builtLocally ? 'Invoice generated from the saved order (server unavailable)' : 'Invoice generated successfully', {
+        type: builtLocally ? 'warning' : 'success',
+      });
     } catch (error) {
       console.error('Failed to generate invoice:', error);
       show('Failed to generate invoice', { type: 'error' });
@@ -136,10 +222,52 @@ export const SalesHistory: React.FC = () => {
     }
   };
 
+  // Straight to the paired thermal printer; without one, or if it fails, the browser prints a roll-width page
+  const handlePrintReceipt = async (orderId: string) => {
+    setPrintingReceipt(orderId);
+    try {
+      const { invoiceData } = await loadInvoiceData(orderId);
+      const { paper } = ThermalPrinter.config();
+      if (ThermalPrinter.isPaired()) {
+        try {
+          await ThermalPrinter.print(ReceiptGenerator.escPos(invoiceData, settings, paper));
+          show('Receipt sent to printer', { type: 'success' });
+          return;
+        } catch (err) {
+          console.error('Thermal printer unavailable, printing from the browser:', err);
+          show('Receipt printer not reachable, printing from the browser', { type: 'warning' });
+        }
+      }
+      const html = await ReceiptGenerator.html(invoiceData, settings, paper);
+      // A slow invoice load or printer timeout uses up the click, and print() may then be refused
+      if (navigator.userActivation && !navigator.userActivation.isActive) {
+        setPendingReceipt(html);
+        return;
+      }
+      await ReceiptGenerator.printHtml(html);
+    } catch (error) {
+      console.error('Failed to print receipt:', error);
+      show('Failed to print receipt', { type: 'error' });
+    } finally {
+      setPrintingReceipt(null);
+    }
+  };
+
+  const handlePrintPendingReceipt = () => {
+    const html = pendingReceipt;
+    setPendingReceipt(null);
+    if (!html) return;
+    ReceiptGenerator.printHtml(html).catch(error => {
+      console.error('Failed to print receipt:', error);
+      show('Failed to print receipt', { type: 'error' });
+    });
+  };
+
   if (editingOrderId) {
     return (
       <EditOrder
         orderId={editingOrderId}
+        settings={settings}
         onBack={() => setEditingOrderId(null)}
         onOrderUpdated={loadOrders}
         onOrderDeleted={loadOrders}
@@ -149,15 +277,20 @@ export const SalesHistory: React.FC = () => {
 
   const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
   const filteredOrders = orders.filter((o) => {
+    // Older servers ignore the paymentMethod query, so split tenders are matched here too
+    if (filters.paymentMethod && !Payments.forOrder(o).some(p => p.method === filters.paymentMethod)) return false;
     if (!q) return true;
     const ql = q.toLowerCase();
     const idMatch = o._id?.toLowerCase().includes(ql);
     const phoneMatch = (o.customerPhone || '').toLowerCase().includes(ql);
+    const refMatch = (o.paymentReference || '').toLowerCase().includes(ql)
+      || Payments.forOrder(o).some(p => Object.values(p.details || {}).some(v => v.toLowerCase().includes(ql)));
     const itemMatch = o.items?.some((it) => {
-      const name = typeof it.product === 'object' ? it.product.name : '';
+      const name = typeof it.product === 'object' ? it.product.name : it.name;
       return (name || '').toLowerCase().includes(ql);
     });
-    return idMatch || phoneMatch || itemMatch;
+    const couponMatch = (o.coupon?.code || '').toLowerCase().includes(ql);
+    return idMatch || phoneMatch || refMatch || itemMatch || couponMatch;
   });
 
   return (
@@ -173,7 +306,7 @@ export const SalesHistory: React.FC = () => {
           </div>
 
           {/* Compact scrollable stats on mobile */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 md:gap-4">
             <div className="rounded-2xl bg-white shadow-sm border border-gray-100 p-4 flex items-start justify-between">
               <div>
                 <p className="text-xs uppercase tracking-wide text-accent-400 font-medium">Revenue</p>
@@ -210,8 +343,46 @@ export const SalesHistory: React.FC = () => {
                 <Calendar className="h-5 w-5 text-accent-600" />
               </div>
             </div>
+            <div className="rounded-2xl bg-white shadow-sm border border-gray-100 p-4 flex items-start justify-between">
+              <div>
+                <p className="text-xs uppercase tracking-wide text-accent-400 font-medium">Refunds{analytics.pageOnly.refunds && <span className="normal-case tracking-normal"> · this page</span>}</p>
+                <p className="font-display text-xl md:text-2xl font-semibold text-primary mt-1">₹{analytics.totalRefunds.toFixed(0)}</p>
+              </div>
+              <div className="p-2.5 rounded-xl bg-red-50">
+                <Undo2 className="h-5 w-5 text-primary" />
+              </div>
+            </div>
           </div>
 
+          {/* Revenue by tender */}
+          {Object.keys(analytics.revenueByTender).length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="uppercase tracking-wide text-accent-400 font-medium">By tender{analytics.pageOnly.tenders && <span className="normal-case tracking-normal"> · this page</span>}</span>
+              {(Object.entries(analytics.revenueByTender) as [PaymentMethod, number][]).map(([method, amount]) => {
+                const Icon = Tenders.get(method).icon;
+                return (
+                  <span key={method} className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-white border border-gray-100 text-accent-600">
+                    <Icon className="h-3.5 w-3.5 text-accent-500" />
+                    {Tenders.label(method)} ₹{amount.toFixed(0)}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Coupon usage */}
+          {analytics.couponUsage.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="uppercase tracking-wide text-accent-400 font-medium">Coupons{analytics.pageOnly.coupons && <span className="normal-case tracking-normal"> · this page</span>}</span>
+              {analytics.couponUsage.map(usage => (
+                <span key={usage.code} className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-white border border-gray-100 text-accent-600">
+                  <TicketPercent className="h-3.5 w-3.5 text-accent-500" />
+                  <span className="font-mono">{usage.code}</span> ×{usage.count} · −₹{usage.amount.toFixed(0)}
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* Filters (responsive layout) */}
           <div className="bg-white/60 backdrop-blur supports-[backdrop-filter]:bg-white/40 border border-gray-100 rounded-2xl px-3 py-3 flex flex-col gap-2">
             <div className="flex flex-col md:flex-row md:items-center gap-2">
@@ -222,7 +393,7 @@ export const SalesHistory: React.FC = () => {
                   type="text"
                   value={q}
                   onChange={(e) => { setQ(e.target.value); setPage(1); }}
-                  placeholder="Search orders, phone, item..."
+                  placeholder="Search orders, phone, payment ref, item..."
                   className="input-fieldIcon pl-9 text-sm w-full"
                   aria-label="Search orders"
                 />
@@ -246,6 +417,16 @@ export const SalesHistory: React.FC = () => {
                   );
                 })}
               </div>
+              {/* Tender */}
+              <select
+                className="input-compact text-sm w-full md:w-auto"
+                value={filters.paymentMethod}
+                onChange={(e) => { setFilters(prev => ({ ...prev, paymentMethod: e.target.value as '' | PaymentMethod })); setPage(1); }}
+                aria-label="Filter by tender"
+              >
+                <option value="">All tenders</option>
+                {Tenders.list().map(t => <option key={t.method} value={t.method}>{t.label}</option>)}
+              </select>
               {/* Date Range */}
               <div className="flex items-center gap-2 md:ml-2">
                 <input
@@ -289,9 +470,9 @@ export const SalesHistory: React.FC = () => {
                   <option value={20}>20</option>
                   <option value={50}>50</option>
                 </select>
-                {(q || filters.paymentStatus || filters.from || filters.to) && (
+                {(q || filters.paymentStatus || filters.paymentMethod || filters.from || filters.to) && (
                   <button
-                    onClick={() => { setQ(''); setFilters({ paymentStatus: '', from: '', to: '' }); setPage(1); }}
+                    onClick={() => { setQ(''); setFilters({ paymentStatus: '', paymentMethod: '', from: '', to: '' }); setPage(1); }}
                     className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-xs md:text-sm font-medium text-accent-600 tracking-wide w-full sm:w-auto"
                   >Reset</button>
                 )}
@@ -321,6 +502,8 @@ export const SalesHistory: React.FC = () => {
           <div className="grid gap-6 md:gap-7 grid-cols-1 md:grid-cols-2 xl:grid-cols-3">
             {filteredOrders.map(order => {
               const isPending = order.paymentStatus === 'PENDING';
+              const tenders = Payments.forOrder(order);
+              const TenderIcon = Tenders.get(order.paymentMethod).icon;
               return (
                 <div key={order._id} className="group rounded-3xl bg-white shadow-sm border border-gray-100 hover:shadow-md transition-shadow p-6 flex flex-col">
                   <div className="flex items-start justify-between mb-4">
@@ -333,12 +516,34 @@ export const SalesHistory: React.FC = () => {
                         <div className="flex items-center gap-1 text-[13px] text-accent-600">
                           <Phone className="h-3.5 w-3.5" />
                           <span>{order.customerPhone}</span>
+                          {order.customer && typeof order.customer === 'object' && (
+                            <span className="text-accent-400">· {order.customer.name}</span>
+                          )}
                         </div>
                       )}
+                      {order.paymentReference && (
+                        <span className="text-[11px] text-accent-400 font-mono">UPI Ref: {order.paymentReference}</span>
+                      )}
+                      {tenders.length > 1 && (
+                        <span className="text-[11px] text-accent-500">
+                          {tenders.map(t => `${Tenders.label(t.method)} ₹${t.amount}`).join(' + ')}
+                        </span>
+                      )}
+                      {tenders.map(t => Tenders.describe(t)).filter(Boolean).map((line, i) => (
+                        <span key={i} className="text-[11px] text-accent-400 font-mono">{line}</span>
+                      ))}
+                      {order.coupon && (
+                        <span className="inline-flex items-center gap-1 text-[11px] text-accent-500">
+                          <TicketPercent className="h-3 w-3" />
+                          <span className="font-mono">{order.coupon.code}</span> −₹{order.coupon.amount}{order.coupon.released ? ' (released)' : ''}
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <span className={`px-3 py-1 rounded-full text-[11px] font-semibold tracking-wide border ${getPaymentStatusStyle(order.paymentStatus)}`}>{order.paymentStatus}</span>
-                      {order.paymentMethod === 'UPI' ? <CreditCard className="h-4 w-4 text-primary" /> : <Banknote className="h-4 w-4 text-green-600" />}
+                      {tenders.length > 1
+                        ? <Split className="h-4 w-4 text-accent-600" />
+                        : <TenderIcon className="h-4 w-4 text-accent-600" />}
                     </div>
                   </div>
 
@@ -348,12 +553,18 @@ export const SalesHistory: React.FC = () => {
                       {order.items.map((item, idx) => (
                         <div key={idx} className="flex justify-between items-center text-sm">
                           <span className="text-accent-600 truncate pr-2">
-                            {item.product && typeof item.product === 'object' ? item.product.name : 'Product'} × {item.qty}
+                            {item.product && typeof item.product === 'object' ? item.product.name : item.name || 'Product'} × {item.qty}
                           </span>
                           <span className="font-medium tabular-nums">₹{item.subtotal || (item.price * item.qty)}</span>
                         </div>
                       ))}
                     </div>
+                    {order.returns && order.returns.length > 0 && (
+                      <div className="mt-3 flex items-center gap-1.5 text-xs text-primary font-medium">
+                        <Undo2 className="h-3.5 w-3.5" />
+                        <span>{order.returns.length} return{order.returns.length > 1 ? 's' : ''} · ₹{getRefundTotal(order)} refunded</span>
+                      </div>
+                    )}
                     {order.notes && (
                       <div className="mt-4 p-3 bg-gray-50 rounded-xl text-xs text-accent-600 leading-relaxed">{order.notes}</div>
                     )}
@@ -393,6 +604,23 @@ export const SalesHistory: React.FC = () => {
                             </>
                           )}
                         </button>
+                        <button
+                          onClick={() => handlePrintReceipt(order._id)}
+                          disabled={printingReceipt === order._id}
+                          className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-accent-800 text-white text-sm font-medium hover:bg-accent-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {printingReceipt === order._id ? (
+                            <>
+                              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                              <span>Printing…</span>
+                            </>
+                          ) : (
+                            <>
+                              <Printer className="h-4 w-4" />
+                              <span>Receipt</span>
+                            </>
+                          )}
+                        </button>
                         <button
                           onClick={() => setEditingOrderId(order._id)}
                           className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-primary text-white text-sm font-medium hover:bg-primary/90"
@@ -438,6 +666,14 @@ export const SalesHistory: React.FC = () => {
           </div>
         )}
       </div>
+      <ConfirmDialog
+        isOpen={!!pendingReceipt}
+        title="Print receipt?"
+        message="The receipt is ready to print from the browser."
+        confirmText="Print"
+        onCancel={() => setPendingReceipt(null)}
+        onConfirm={handlePrintPendingReceipt}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,462 @@
+import React, { useEffect, useState } from 'react';
+import { Save, Store, MapPin, FileText, CreditCard, Banknote, AlertTriangle, Receipt, Star, Percent, TrendingUp, KeyRound, Printer, Usb, Cable } from 'lucide-react';
+import { ShopSettings } from '../types';
+import { UPIIntent } from '../utils/upi';
+import { Gst } from '../utils/gst';
+import { ReceiptGenerator } from '../utils/receiptGenerator';
+import { ApiService } from '../services/api';
+import { ThermalPrinter, PrinterConnection } from '../services/thermalPrinter';
+import { useToast } from './ui/Toast';
+
+interface SettingsProps {
+  settings: ShopSettings;
+  onSave: (settings: ShopSettings) => Promise<{ synced: boolean }>;
+}
+
+// Numeric settings are edited as strings so fields can be cleared while typing
+const toFormData = (settings: ShopSettings) => ({
+  ...settings,
+  lowStockThreshold: settings.lowStockThreshold.toString(),
+  loyaltyPointsPer100: settings.loyaltyPointsPer100.toString(),
+  loyaltyPointValue: settings.loyaltyPointValue.toString(),
+  maxDiscountPercent: settings.maxDiscountPercent.toString(),
+  minMarginPercent: settings.minMarginPercent.toString(),
+  managerPin: '', // only a newly typed PIN; the current one is kept when left blank
+});
+
+export const Settings: React.FC<SettingsProps> = ({ settings, onSave }) => {
+  const { show } = useToast();
+  const [formData, setFormData] = useState(toFormData(settings));
+  const [isSaving, setIsSaving] = useState(false);
+  // The receipt printer belongs to this device, so it is saved as soon as it changes rather than with the form
+  const [printer, setPrinter] = useState(ThermalPrinter.config());
+  const printerSupport = ThermalPrinter.supported();
+
+  // Re-seed the form when settings arrive from the server
+  useEffect(() => {
+    setFormData(toFormData(settings));
+  }, [settings]);
+
+  const handleInputChange = (field: keyof typeof formData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.shopName.trim()) {
+      show('Shop name is required', { type: 'warning' });
+      return;
+    }
+    const gstin = formData.gstin.trim().toUpperCase();
+    if (gstin && !Gst.isValidGstin(gstin)) {
+      show('GSTIN must be a valid 15-character GST number', { type: 'warning' });
+      return;
+    }
+    const upiVpa = formData.upiVpa.trim();
+    if (upiVpa && !UPIIntent.isValidVpa(upiVpa)) {
+      show('UPI ID should look like shopname@bank', { type: 'warning' });
+      return;
+    }
+    const threshold = parseInt(formData.lowStockThreshold, 10);
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      show('Low-stock threshold must be zero or more', { type: 'warning' });
+      return;
+    }
+    const pointsPer100 = parseFloat(formData.loyaltyPointsPer100 || '0');
+    const pointValue = parseFloat(formData.loyaltyPointValue || '0');
+    if (!Number.isFinite(pointsPer100) || pointsPer100 < 0 || !Number.isFinite(pointValue) || pointValue < 0) {
+      show('Loyalty rates must be zero or more', { type: 'warning' });
+      return;
+    }
+    const maxDiscount = parseFloat(formData.maxDiscountPercent || '0');
+    const minMargin = parseFloat(formData.minMarginPercent || '0');
+    if (!Number.isFinite(maxDiscount) || maxDiscount < 0 || maxDiscount > 100 || !Number.isFinite(minMargin) || minMargin < 0) {
+      show('Discount limits must be between 0 and 100%', { type: 'warning' });
+      return;
+    }
+    const managerPin = formData.managerPin.trim();
+    if (managerPin && !/^\d{4,8}$/.test(managerPin)) {
+      show('Manager PIN must be 4 to 8 digits', { type: 'warning' });
+      return;
+    }
+
+    // The PIN goes only to the server, which keeps it; the settings just record whether one is set
+    const removePin = !managerPin && settings.managerPinSet && !formData.managerPinSet;
+
+    setIsSaving(true);
+    try {
+      if (managerPin || removePin) await ApiService.setManagerPin(managerPin || null);
+      const { synced } = await onSave({
+        shopName: formData.shopName.trim(),
+        address: formData.address.trim(),
+        gstin,
+        pricesIncludeGst: formData.pricesIncludeGst,
+        upiVpa,
+        invoiceFooter: formData.invoiceFooter.trim(),
+        lowStockThreshold: threshold,
+        defaultPaymentMethod: formData.defaultPaymentMethod,
+        loyaltyPointsPer100: pointsPer100,
+        loyaltyPointValue: pointValue,
+        maxDiscountPercent: maxDiscount,
+        minMarginPercent: minMargin,
+        managerPinSet: managerPin ? true : removePin ? false : settings.managerPinSet,
+      });
+      show(synced ? 'Settings saved' : 'Settings saved on this device only (server unreachable)', {
+        type: synced ? 'success' : 'warning',
+      });
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+      show(managerPin || removePin
+        ? 'Could not update the manager PIN on the server, so nothing was saved. Check the connection and try again.'
+        : 'Failed to save settings', { type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePairPrinter = async (connection: PrinterConnection) => {
+    try {
+      setPrinter(await ThermalPrinter.pair(connection));
+      show('Receipt printer paired on this device', { type: 'success' });
+    } catch (error) {
+      // Closing the browser's device picker rejects too; that is not worth a warning
+      if (error instanceof DOMException && error.name === 'NotFoundError') return;
+      console.error('Failed to pair printer:', error);
+      show('Could not pair the receipt printer', { type: 'error' });
+    }
+  };
+
+  const handleTestPrint = async () => {
+    try {
+      await ThermalPrinter.print(ReceiptGenerator.testPage(formData.shopName || settings.shopName, printer.paper));
+      show('Test receipt sent', { type: 'success' });
+    } catch (error) {
+      console.error('Test print failed:', error);
+      show(error instanceof Error ? error.message : 'Test print failed', { type: 'error' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="bg-surface border-b border-gray-100 sticky top-0 z-30">
+        <div className="px-5 lg:px-8 py-4">
+          <h1 className="font-display text-2xl font-semibold text-gray-900">Settings</h1>
+          <p className="text-accent-400 text-sm mt-1">Shop details used on invoices, checkout and UPI payments</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="px-5 lg:px-8 py-6 pb-32 max-w-3xl space-y-6">
+        {/* Shop */}
+        <div className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm space-y-5">
+          <h3 className="font-display text-lg font-semibold text-gray-900">Shop</h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Shop Name *</label>
+            <div className="relative">
+              <Store className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+              <input
+                type="text"
+                value={formData.shopName}
+                onChange={(e) => handleInputChange('shopName', e.target.value)}
+                placeholder="Shop name"
+                className="input-fieldIcon pl-12"
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+            <div className="relative">
+              <MapPin className="absolute left-4 top-4 text-accent-400 h-5 w-5" />
+              <textarea
+                value={formData.address}
+                onChange={(e) => handleInputChange('address', e.target.value)}
+                placeholder="Street, city, state, PIN"
+                rows={3}
+                className="input-fieldIcon pl-12 resize-none"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">GSTIN</label>
+            <div className="relative">
+              <Receipt className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+              <input
+                type="text"
+                value={formData.gstin}
+                onChange={(e) => handleInputChange('gstin', e.target.value.toUpperCase())}
+                placeholder="e.g., 27ABCDE1234F1Z5"
+                maxLength={15}
+                className="input-fieldIcon pl-12 uppercase"
+              />
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-accent-400 mb-2">Product Prices</p>
+            <div className="flex gap-2">
+              {[
+                { label: 'Include GST', value: true },
+                { label: 'GST added at checkout', value: false }
+              ].map(btn => {
+                const active = formData.pricesIncludeGst === btn.value;
+                return (
+                  <button
+                    key={btn.label}
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, pricesIncludeGst: btn.value }))}
+                    className={`flex-1 inline-flex items-center justify-center gap-2 px-3 py-3 rounded-xl border text-sm font-medium transition-all ${active ? 'border-primary bg-primary/5 text-primary shadow-sm' : 'border-gray-200 hover:border-gray-300 text-accent-600'}`}
+                    aria-pressed={active}
+                  >{btn.label}</button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Payments */}
+        <div className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm space-y-5">
+          <h3 className="font-display text-lg font-semibold text-gray-900">Payments</h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">UPI ID (VPA)</label>
+            <div className="relative">
+              <CreditCard className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+              <input
+                type="text"
+                value={formData.upiVpa}
+                onChange={(e) => handleInputChange('upiVpa', e.target.value)}
+                placeholder="shopname@bank"
+                className="input-fieldIcon pl-12"
+              />
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-accent-400 mb-2">Default Payment Method</p>
+            <div className="flex gap-2">
+              {[
+                { label: 'Cash', value: 'CASH' as const, icon: <Banknote className="h-4 w-4" /> },
+                { label: 'UPI', value: 'UPI' as const, icon: <CreditCard className="h-4 w-4" /> }
+              ].map(btn => {
+                const active = formData.defaultPaymentMethod === btn.value;
+                return (
+                  <button
+                    key={btn.value}
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, defaultPaymentMethod: btn.value }))}
+                    className={`flex-1 inline-flex items-center justify-center gap-2 px-3 py-3 rounded-xl border text-sm font-medium transition-all ${active ? 'border-primary bg-primary/5 text-primary shadow-sm' : 'border-gray-200 hover:border-gray-300 text-accent-600'}`}
+                    aria-pressed={active}
+                  >{btn.icon}{btn.label}</button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Loyalty */}
+        <div className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm space-y-5">
+          <h3 className="font-display text-lg font-semibold text-gray-900">Loyalty</h3>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Points per ₹100</label>
+              <div className="relative">
+                <Star className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={formData.loyaltyPointsPer100}
+                  onChange={(e) => handleInputChange('loyaltyPointsPer100', e.target.value)}
+                  className="input-fieldIcon pl-12"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">₹ value per point</label>
+              <div className="relative">
+                <Banknote className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.loyaltyPointValue}
+                  onChange={(e) => handleInputChange('loyaltyPointValue', e.target.value)}
+                  className="input-fieldIcon pl-12"
+                />
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-accent-400">Points accrue on PAID orders with a customer phone. Set points per ₹100 to 0 to turn loyalty off.</p>
+        </div>
+
+        {/* Discounts */}
+        <div className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm space-y-5">
+          <h3 className="font-display text-lg font-semibold text-gray-900">Discounts</h3>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Max discount (% of bill)</label>
+              <div className="relative">
+                <Percent className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={formData.maxDiscountPercent}
+                  onChange={(e) => handleInputChange('maxDiscountPercent', e.target.value)}
+                  className="input-fieldIcon pl-12"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Min margin over cost (%)</label>
+              <div className="relative">
+                <TrendingUp className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+                <input
+                  type="number"
+                  min={0}
+                  value={formData.minMarginPercent}
+                  onChange={(e) => handleInputChange('minMarginPercent', e.target.value)}
+                  className="input-fieldIcon pl-12"
+                />
+              </div>
+            </div>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">Manager PIN</label>
+              {formData.managerPinSet && (
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, managerPinSet: false, managerPin: '' }))}
+                  className="text-xs font-medium text-accent-500 hover:text-primary"
+                >Remove PIN</button>
+              )}
+            </div>
+            <div className="relative">
+              <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+              <input
+                type="password"
+                inputMode="numeric"
+                value={formData.managerPin}
+                onChange={(e) => handleInputChange('managerPin', e.target.value)}
+                placeholder={formData.managerPinSet ? 'PIN set — type to change' : '4-8 digits'}
+                className="input-fieldIcon pl-12"
+                autoComplete="new-password"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-accent-400">Manual line and bill discounts beyond these limits, or below wholesale cost, need the manager PIN at checkout. Promotions do not count towards the cap.</p>
+        </div>
+
+        {/* Invoice & Inventory */}
+        <div className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm space-y-5">
+          <h3 className="font-display text-lg font-semibold text-gray-900">Invoice & Inventory</h3>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Invoice Footer</label>
+            <div className="relative">
+              <FileText className="absolute left-4 top-4 text-accent-400 h-5 w-5" />
+              <textarea
+                value={formData.invoiceFooter}
+                onChange={(e) => handleInputChange('invoiceFooter', e.target.value)}
+                placeholder="Thank you for your business!"
+                rows={2}
+                className="input-fieldIcon pl-12 resize-none"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Low-Stock Threshold</label>
+            <div className="relative">
+              <AlertTriangle className="absolute left-4 top-1/2 -translate-y-1/2 text-accent-400 h-5 w-5" />
+              <input
+                type="number"
+                min={0}
+                value={formData.lowStockThreshold}
+                onChange={(e) => handleInputChange('lowStockThreshold', e.target.value)}
+                className="input-fieldIcon pl-12"
+              />
+            </div>
+            <p className="text-xs text-accent-400 mt-2">Products with fewer units than this are flagged as LOW.</p>
+          </div>
+        </div>
+
+        {/* Receipt Printer */}
+        <div className="bg-white border border-gray-100 rounded-3xl p-6 shadow-sm space-y-5">
+          <h3 className="font-display text-lg font-semibold text-gray-900">Receipt Printer</h3>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-accent-400 mb-2">Paper Width</p>
+            <div className="flex gap-2">
+              {(['58', '80'] as const).map(paper => {
+                const active = printer.paper === paper;
+                return (
+                  <button
+                    key={paper}
+                    type="button"
+                    onClick={() => setPrinter(ThermalPrinter.setPaper(paper))}
+                    className={`flex-1 inline-flex items-center justify-center gap-2 px-3 py-3 rounded-xl border text-sm font-medium transition-all ${active ? 'border-primary bg-primary/5 text-primary shadow-sm' : 'border-gray-200 hover:border-gray-300 text-accent-600'}`}
+                    aria-pressed={active}
+                  >{paper} mm</button>
+                );
+              })}
+            </div>
+          </div>
+          <div className="flex items-center gap-3 p-4 rounded-xl bg-gray-50">
+            <Printer className="h-5 w-5 text-accent-400 shrink-0" />
+            <p className="flex-1 text-sm text-accent-600">
+              {printer.connection ? `${printer.name} (${printer.connection === 'usb' ? 'USB' : 'Serial'})` : 'No printer paired on this device'}
+            </p>
+            {printer.connection && (
+              <button
+                type="button"
+                onClick={() => setPrinter(ThermalPrinter.forget())}
+                className="text-sm font-medium text-primary hover:underline"
+              >Forget</button>
+            )}
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <button
+              type="button"
+              onClick={() => handlePairPrinter('usb')}
+              disabled={!printerSupport.includes('usb')}
+              className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 rounded-xl border border-gray-200 text-sm font-medium text-accent-600 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Usb className="h-4 w-4" />
+              Pair USB printer
+            </button>
+            <button
+              type="button"
+              onClick={() => handlePairPrinter('serial')}
+              disabled={!printerSupport.includes('serial')}
+              className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 rounded-xl border border-gray-200 text-sm font-medium text-accent-600 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Cable className="h-4 w-4" />
+              Pair serial printer
+            </button>
+            <button
+              type="button"
+              onClick={handleTestPrint}
+              disabled={!printer.connection}
+              className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 rounded-xl border border-gray-200 text-sm font-medium text-accent-600 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Receipt className="h-4 w-4" />
+              Test print
+            </button>
+          </div>
+          <p className="text-xs text-accent-400">
+            {printerSupport.length > 0
+              ? 'Saved on this device only. Receipts print straight to the paired printer; without one they open in the browser\'s print dialog at roll width.'
+              : 'This browser cannot talk to USB or serial printers (use Chrome or Edge). Receipts open in the print dialog at roll width instead.'}
+          </p>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="w-full inline-flex items-center justify-center gap-2 px-5 py-3 rounded-xl bg-primary text-white font-medium shadow-sm hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="h-5 w-5" />
+          <span>{isSaving ? 'Saving...' : 'Save Settings'}</span>
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { PaymentMethod } from '../types';
+import { Tenders } from '../utils/tenders';
+
+interface TenderCaptureProps {
+  method: PaymentMethod;
+  details: Record<string, string>;
+  onChange: (details: Record<string, string>) => void;
+}
+
+// Renders whatever capture fields the tender declares in the registry
+export const TenderCapture: React.FC<TenderCaptureProps> = ({ method, details, onChange }) => {
+  const { captureFields } = Tenders.get(method);
+  if (!captureFields.length) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {captureFields.map(field => (
+        <input
+          key={field.key}
+          type="text"
+          value={details[field.key] || ''}
+          onChange={(e) => onChange({ ...details, [field.key]: e.target.value })}
+          placeholder={field.placeholder || field.label}
+          maxLength={field.maxLength}
+          inputMode={field.inputMode}
+          className="input-compact flex-1 min-w-[8rem]"
+          aria-label={field.label}
+        />
+      ))}
+    </div>
+  );
+};
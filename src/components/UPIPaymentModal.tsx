@@ -1,19 +1,54 @@
-import React from 'react';
-import { X, Check, QrCode } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Check, AlertCircle } from 'lucide-react';
+import QRCode from 'qrcode';
+import { UPIIntent } from '../utils/upi';
 
 interface UPIPaymentModalProps {
   isOpen: boolean;
   onClose: () => void;
   onReceived: () => void;
   amount: number;
+  reference: string; // order reference carried in the UPI transaction for reconciliation
+  vpa?: string;
+  payeeName?: string;
 }
 
 export const UPIPaymentModal: React.FC<UPIPaymentModalProps> = ({
   isOpen,
   onClose,
   onReceived,
-  amount
+  amount,
+  reference,
+  vpa = import.meta.env.VITE_UPI_VPA || '',
+  payeeName = import.meta.env.VITE_UPI_PAYEE_NAME || ''
 }) => {
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [qrError, setQrError] = useState<string | null>(null);
+
+  const isConfigured = UPIIntent.isValidVpa(vpa);
+  const upiUri = useMemo(
+    () => isConfigured
+      ? UPIIntent.buildUri({ vpa, payeeName: payeeName || vpa, amount, reference })
+      : '',
+    [isConfigured, vpa, payeeName, amount, reference]
+  );
+
+  useEffect(() => {
+    if (!isOpen || !upiUri) {
+      setQrDataUrl(null);
+      return;
+    }
+    let cancelled = false;
+    setQrError(null);
+    QRCode.toDataURL(upiUri, { errorCorrectionLevel: 'M', margin: 1, width: 288 })
+      .then(url => { if (!cancelled) setQrDataUrl(url); })
+      .catch(err => {
+        console.error('Failed to render UPI QR:', err);
+        if (!cancelled) setQrError('Could not generate QR code');
+      });
+    return () => { cancelled = true; };
+  }, [isOpen, upiUri]);
+
   if (!isOpen) return null;
 
   return (
@@ -42,19 +77,31 @@ export const UPIPaymentModal: React.FC<UPIPaymentModalProps> = ({
           </div>
 
           {/* QR Code Area */}
-          <div className="bg-gray-50 rounded-2xl p-8 mb-8 flex items-center justify-center">
-
-                <img
-                  src={"/file.svg"}
-                  alt="UPI QR Code"
-                  className=" h-[18rem] mx-auto mb-3"
-                />{" "}
-
+          <div className="bg-gray-50 rounded-2xl p-8 mb-4 flex items-center justify-center min-h-[20rem]">
+            {!isConfigured ? (
+              <div className="text-center text-sm text-accent-500">
+                <AlertCircle className="h-8 w-8 text-primary mx-auto mb-3" />
+                <p>UPI ID is not configured.</p>
+                <p className="mt-1">Set a valid payee VPA to generate the QR code.</p>
+              </div>
+            ) : qrError ? (
+              <p className="text-sm text-primary">{qrError}</p>
+            ) : qrDataUrl ? (
+              <img
+                src={qrDataUrl}
+                alt="UPI QR Code"
+                className="h-[18rem] w-[18rem] mx-auto"
+              />
+            ) : (
+              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            )}
           </div>
 
-          <p className="text-center text-accent-400 text-sm mb-8">
-            Customer can scan this code with any UPI app
-          </p>
+          <div className="text-center text-sm mb-8 space-y-1">
+            {isConfigured && <p className="text-gray-900 font-medium">{payeeName || vpa} · {vpa}</p>}
+            <p className="text-accent-400">Ref: <span className="font-mono">{reference}</span></p>
+            <p className="text-accent-400">Customer can scan this code with any UPI app</p>
+          </div>
 
           {/* Action Buttons */}
           <div className="flex space-x-4">
@@ -1,4 +1,5 @@
-import type { ApiError, ListParams } from '../types';
+import type { ApiError, Coupon, CouponInput, CouponLookup, CreateOrderRequest, CreateReturnRequest, Customer, CustomerInput, CustomerListResponse, DiscountApproval, DiscountApprovalRequest, InvoiceData, ListParams, LoyaltyAccount, OrderReturn, PaymentMethod, Promotion, PromotionInput, ShopSettings, StockChangesResponse, StockHold, StockHoldRequest } from '../types';
+import { InvoiceSchema } from '../utils/invoiceSchema';
 
 const API_BASE_URL = 'https://o0w8wocb5g.execute-api.ap-south-1.amazonaws.com/api/elite';
 
@@ -25,6 +26,16 @@ export class ApiService {
   static clearToken() {
     this.token = null;
     localStorage.removeItem('auth-token');
+    localStorage.removeItem('auth-user');
+  }
+
+  // Signed-in email, used to scope device-local data such as the saved cart
+  static setUser(email: string) {
+    localStorage.setItem('auth-user', email.trim().toLowerCase());
+  }
+
+  static getUser(): string | null {
+    return localStorage.getItem('auth-user');
   }
 
   static getAuthHeaders(): Record<string, string> {
@@ -60,6 +71,7 @@ export class ApiService {
       if (!res.ok) {
         const err: ApiError = {
           status: res.status,
+          code: (data && typeof data === 'object' && data.code) || undefined,
           message: (data && (data.message || data.error)) || 'Request failed',
         };
         throw err;
@@ -169,15 +181,12 @@ export class ApiService {
   }
 
   // Order APIs
-  static async createOrder(orderData: {
-    items: { product: string; qty: number; price: number }[];
-    customerPhone?: string;
-    paymentMethod: 'CASH' | 'UPI';
-    discount?: number;
-    notes?: string;
-  }) {
+  // Idempotency key lets the server drop duplicate submissions of the same sale (e.g. outbox replays)
+  // A replayed Idempotency-Key is answered with 409 and code IDEMPOTENCY_REPLAY instead of a second order
+  static async createOrder(orderData: CreateOrderRequest, options?: { idempotencyKey?: string }) {
     return this.request<any>('/orders', {
       method: 'POST',
+      headers: options?.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
       body: JSON.stringify(orderData),
     });
   }
@@ -186,12 +195,16 @@ export class ApiService {
     from?: string;
     to?: string;
     paymentStatus?: 'PENDING' | 'PAID' | 'CANCELLED';
+    paymentMethod?: PaymentMethod;
+    customerPhone?: string;
   } & ListParams, options?: { signal?: AbortSignal }) {
     const { page, pageSize, sortBy, sortDir } = { ...this.defaultList, ...params };
     const query = this.buildQuery({
       from: params?.from,
       to: params?.to,
       paymentStatus: params?.paymentStatus,
+      paymentMethod: params?.paymentMethod,
+      customerPhone: params?.customerPhone,
       page,
       limit: pageSize,
       sortBy,
@@ -215,12 +228,175 @@ export class ApiService {
   return this.request<any>(`/orders/${id}`, { method: 'DELETE' });
   }
 
+  // Server restores inventory and reverses the order's loyalty earn/redeem entries; coupons are released separately
   static async cancelOrder(id: string) {
   return this.request<any>(`/orders/${id}/cancel`, { method: 'PUT' });
   }
 
-  // Invoice API
-  static async getInvoiceData(orderId: string) {
-    return this.request<InvoiceData>(`/orders/${orderId}/invoice`);
+  // Partial return / exchange against an existing order; server restocks and issues the refund record
+  static async createReturn(orderId: string, returnData: CreateReturnRequest) {
+    return this.request<OrderReturn>(`/orders/${orderId}/returns`, {
+      method: 'POST',
+      body: JSON.stringify(returnData),
+    });
+  }
+
+  // Customer directory APIs (q matches name or phone)
+  static async getCustomers(params?: ListParams, options?: { signal?: AbortSignal }) {
+    const { page, pageSize, q, sortBy, sortDir } = { ...this.defaultList, ...params };
+    const query = this.buildQuery({ page, limit: pageSize, q, sortBy, sortDir });
+    return this.request<CustomerListResponse>(`/customers${query}`, { signal: options?.signal });
+  }
+
+  static async getCustomer(id: string) {
+    return this.request<Customer>(`/customers/${id}`);
+  }
+
+  static async createCustomer(customer: CustomerInput) {
+    return this.request<Customer>('/customers', {
+      method: 'POST',
+      body: JSON.stringify(customer),
+    });
+  }
+
+  static async updateCustomer(id: string, customer: Partial<CustomerInput>) {
+    return this.request<Customer>(`/customers/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(customer),
+    });
+  }
+
+  // Loyalty ledger for a customer phone; accrual happens server-side when an order is PAID
+  static async getLoyaltyAccount(phone: string, options?: { signal?: AbortSignal }) {
+    return this.request<LoyaltyAccount>(`/loyalty/${encodeURIComponent(phone)}`, { signal: options?.signal });
+  }
+
+  // Promotion rules; the cart evaluates them locally via utils/promotions
+  static async getPromotions(options?: { signal?: AbortSignal }) {
+    return this.request<Promotion[] | { promotions: Promotion[] }>('/promotions', { signal: options?.signal });
+  }
+
+  static async createPromotion(promotion: PromotionInput) {
+    return this.request<Promotion>('/promotions', {
+      method: 'POST',
+      body: JSON.stringify(promotion),
+    });
+  }
+
+  static async updatePromotion(id: string, promotion: Partial<PromotionInput>) {
+    return this.request<Promotion>(`/promotions/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(promotion),
+    });
+  }
+
+  static async deletePromotion(id: string) {
+    return this.request<{ success?: boolean }>(`/promotions/${id}`, { method: 'DELETE' });
+  }
+
+  // Coupon codes; usage counters live on the server, eligibility is re-checked in the cart via utils/coupons
+  static async getCoupons(options?: { signal?: AbortSignal }) {
+    return this.request<Coupon[] | { coupons: Coupon[] }>('/coupons', { signal: options?.signal });
+  }
+
+  static async lookupCoupon(code: string, customerPhone?: string, options?: { signal?: AbortSignal }) {
+    const params = new URLSearchParams({ code });
+    if (customerPhone) params.set('customerPhone', customerPhone);
+    return this.request<CouponLookup>(`/coupons/lookup?${params.toString()}`, { signal: options?.signal });
+  }
+
+  static async createCoupon(coupon: CouponInput) {
+    return this.request<Coupon>('/coupons', {
+      method: 'POST',
+      body: JSON.stringify(coupon),
+    });
+  }
+
+  static async updateCoupon(id: string, coupon: Partial<CouponInput>) {
+    return this.request<Coupon>(`/coupons/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(coupon),
+    });
+  }
+
+  static async deleteCoupon(id: string) {
+    return this.request<{ success?: boolean }>(`/coupons/${id}`, { method: 'DELETE' });
+  }
+
+  // Hands a cancelled order's redemption back to the coupon's usage limit; idempotent per order
+  static async releaseCoupon(couponId: string, orderId: string) {
+    return this.request<Coupon>(`/coupons/${couponId}/release`, {
+      method: 'POST',
+      body: JSON.stringify({ orderId }),
+    });
+  }
+
+  // Stock holds; the server answers 409 when the units are no longer available
+  static async reserveStock(hold: StockHoldRequest) {
+    return this.request<StockHold>('/stock-holds', {
+      method: 'POST',
+      body: JSON.stringify(hold),
+    });
+  }
+
+  static async updateStockHold(id: string, qty: number) {
+    return this.request<StockHold>(`/stock-holds/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ qty }),
+    });
+  }
+
+  static async renewStockHold(id: string) {
+    return this.request<StockHold>(`/stock-holds/${id}/renew`, { method: 'POST' });
+  }
+
+  static async releaseStockHold(id: string) {
+    return this.request<{ success?: boolean }>(`/stock-holds/${id}`, { method: 'DELETE' });
+  }
+
+  // Live inventory; EventSource cannot send headers, so the stream takes the token in the query string
+  static inventoryStreamUrl(): string {
+    return `${API_BASE_URL}/inventory/stream?token=${encodeURIComponent(this.getToken() || '')}`;
+  }
+
+  // Polling fallback for the stream: levels changed since the cursor (all levels when omitted)
+  static async getStockChanges(since?: string) {
+    const qs = since ? `?since=${encodeURIComponent(since)}` : '';
+    return this.request<StockChangesResponse>(`/inventory/changes${qs}`);
+  }
+
+  // Settings APIs
+  static async getSettings() {
+    return this.request<Partial<ShopSettings>>('/settings');
+  }
+
+  static async updateSettings(settings: ShopSettings) {
+    return this.request<Partial<ShopSettings>>('/settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  // The PIN is stored and checked only on the server; null removes it
+  static async setManagerPin(pin: string | null) {
+    return this.request<Pick<ShopSettings, 'managerPinSet'>>('/settings/manager-pin', pin
+      ? { method: 'PUT', body: JSON.stringify({ pin }) }
+      : { method: 'DELETE' });
+  }
+
+  // Checks the manager PIN (rate-limited by the server) and returns a signed approval for the order.
+  // A wrong PIN is answered with 403.
+  static async approveDiscount(request: DiscountApprovalRequest) {
+    return this.request<DiscountApproval>('/discount-approvals', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  // Invoice API; the payload is decoded, so a malformed invoice rejects here rather than while printing
+  // Settings are only used for lines the server sent without tax figures
+  static async getInvoiceData(orderId: string, settings?: ShopSettings): Promise<InvoiceData> {
+    const payload = await this.request<unknown>(`/orders/${orderId}/invoice`);
+    return InvoiceSchema.decode(payload, settings);
   }
 }
\ No newline at end of file
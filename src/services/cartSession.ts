@@ -0,0 +1,40 @@
+import type { CartItem, CheckoutDraft } from '../types';
+
+const STORAGE_PREFIX = 'cart-session';
+
+export interface SavedCart {
+  items: CartItem[];
+  draft: CheckoutDraft | null;
+  savedAt: string;
+}
+
+// The active cart and checkout form, saved per signed-in user so reloads and logouts keep them
+export class CartSession {
+  private static key(user: string | null) {
+    return `${STORAGE_PREFIX}:${user || 'shared'}`;
+  }
+
+  static load(user: string | null): SavedCart | null {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.key(user)) || 'null');
+      if (!stored || !Array.isArray(stored.items)) return null;
+      return { items: stored.items, draft: stored.draft || null, savedAt: stored.savedAt };
+    } catch {
+      return null;
+    }
+  }
+
+  static save(user: string | null, items: CartItem[], draft: CheckoutDraft | null) {
+    try {
+      if (!items.length && !draft) {
+        localStorage.removeItem(this.key(user));
+        return;
+      }
+      const saved: SavedCart = { items, draft, savedAt: new Date().toISOString() };
+      localStorage.setItem(this.key(user), JSON.stringify(saved));
+    } catch (error) {
+      // Quota errors only cost the reload safety net, never the sale in progress
+      console.error('Failed to save cart:', error);
+    }
+  }
+}
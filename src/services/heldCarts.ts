@@ -0,0 +1,37 @@
+import type { CartItem, HeldCart } from '../types';
+
+const STORAGE_KEY = 'held-carts';
+
+// Parked carts live in localStorage so they survive a reload; stock is re-checked when one is resumed
+export class HeldCarts {
+  static list(): HeldCart[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      return Array.isArray(stored)
+        ? stored.filter((c: HeldCart) => c && typeof c.id === 'string' && Array.isArray(c.items))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private static write(carts: HeldCart[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(carts));
+  }
+
+  static park(name: string, items: CartItem[]): HeldCart {
+    const carts = this.list();
+    const held: HeldCart = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim() || `Cart ${carts.length + 1}`,
+      items,
+      createdAt: new Date().toISOString(),
+    };
+    this.write([...carts, held]);
+    return held;
+  }
+
+  static remove(id: string) {
+    this.write(this.list().filter(c => c.id !== id));
+  }
+}
@@ -0,0 +1,98 @@
+import type { StockChangesResponse, StockLevel } from '../types';
+import { ApiService } from './api';
+import { OrderOutbox } from './orderOutbox';
+
+export type StockListener = (levels: StockLevel[]) => void;
+
+// Live stock levels from other terminals. Uses the server-sent event stream when it is reachable and
+// falls back to polling the changes endpoint, trying the stream again every few minutes.
+export class InventoryFeed {
+  static readonly pollIntervalMs = 15_000;
+  static readonly streamRetryMs = 5 * 60_000;
+
+  private static listeners = new Set<StockListener>();
+  private static source: EventSource | null = null;
+  private static pollTimer: number | null = null;
+  private static cursor: string | undefined;
+  private static retryStreamAt = 0;
+
+  static subscribe(listener: StockListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private static publish(changes: Partial<StockChangesResponse> | StockLevel[]) {
+    const levels = Array.isArray(changes) ? changes : changes.levels || [];
+    if (!Array.isArray(changes) && changes.cursor) this.cursor = changes.cursor;
+    if (levels.length) this.listeners.forEach(listener => listener(levels));
+  }
+
+  static start() {
+    if (this.source || this.pollTimer !== null) return;
+    this.openStream();
+  }
+
+  static stop() {
+    this.source?.close();
+    this.source = null;
+    if (this.pollTimer !== null) window.clearInterval(this.pollTimer);
+    this.pollTimer = null;
+    this.cursor = undefined;
+  }
+
+  private static openStream() {
+    if (typeof EventSource === 'undefined') {
+      this.startPolling();
+      return;
+    }
+    const source = new EventSource(ApiService.inventoryStreamUrl());
+    this.source = source;
+    source.onopen = () => {
+      this.stopPolling();
+      // Catch up on anything that changed while the stream was down
+      if (this.cursor) this.poll();
+    };
+    source.onmessage = (event) => {
+      try {
+        this.publish(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Ignoring malformed inventory event:', error);
+      }
+    };
+    source.onerror = () => {
+      // EventSource retries by itself while CONNECTING; once CLOSED we poll instead
+      if (source.readyState !== EventSource.CLOSED) return;
+      source.close();
+      if (this.source === source) this.source = null;
+      this.startPolling();
+    };
+  }
+
+  private static startPolling() {
+    if (this.pollTimer !== null) return;
+    this.retryStreamAt = Date.now() + this.streamRetryMs;
+    this.poll();
+    this.pollTimer = window.setInterval(() => {
+      if (typeof EventSource !== 'undefined' && !this.source && Date.now() >= this.retryStreamAt) {
+        this.retryStreamAt = Date.now() + this.streamRetryMs;
+        this.openStream();
+      }
+      this.poll();
+    }, this.pollIntervalMs);
+  }
+
+  private static stopPolling() {
+    if (this.pollTimer !== null) window.clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  private static async poll() {
+    try {
+      this.publish(await ApiService.getStockChanges(this.cursor));
+    } catch (error) {
+      if (!OrderOutbox.isOfflineError(error)) console.error('Failed to poll stock changes:', error);
+    }
+  }
+}
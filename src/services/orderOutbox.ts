@@ -0,0 +1,151 @@
+import type { ApiError, CreateOrderRequest, PendingOrder } from '../types';
+import { ApiService } from './api';
+
+const DB_NAME = 'pos-outbox';
+const DB_VERSION = 1;
+const STORE = 'orders';
+
+export interface OutboxFlushResult {
+  synced: number;
+  rejected: number; // refused by the server on this flush; kept aside for the cashier to review
+  failed: number; // server errors and expired sessions; retried on the next flush
+  remaining: number; // still waiting to sync, not counting rejected entries
+}
+
+// The server answers a repeated Idempotency-Key with 409 and this code; any other 409 (e.g. stock
+// unavailable) is a real refusal of the sale
+const IDEMPOTENT_REPLAY = 'IDEMPOTENCY_REPLAY';
+
+// Answers that refuse the sale itself, so the same payload would be refused every time
+const REJECTIONS = [400, 409, 422];
+
+// The session expired while offline; the sale is fine and is replayed once the cashier signs in again
+const isAuthError = (status?: number) => status === 401 || status === 403;
+
+// Persistent queue of orders that could not reach the server (IndexedDB-backed)
+export class OrderOutbox {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  private static flushing: Promise<OutboxFlushResult> | null = null;
+
+  private static openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          if (!db.objectStoreNames.contains(STORE)) {
+            db.createObjectStore(STORE, { keyPath: 'id' });
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+          this.dbPromise = null;
+          reject(req.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static async run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDb();
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = fn(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  static createIdempotencyKey(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+      return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  }
+
+  // Network failures carry no HTTP status; anything with a status was answered by the server
+  static isOfflineError(error: unknown): boolean {
+    const err = error as ApiError | undefined;
+    return !!err && err.status === undefined && err.code !== 'ABORTED';
+  }
+
+  static async enqueue(payload: CreateOrderRequest, idempotencyKey: string): Promise<PendingOrder> {
+    const entry: PendingOrder = {
+      id: idempotencyKey,
+      idempotencyKey,
+      payload,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+    await this.run('readwrite', store => store.put(entry));
+    return entry;
+  }
+
+  static async getAll(): Promise<PendingOrder[]> {
+    const entries = await this.run<PendingOrder[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Orders still waiting to sync
+  static async count(): Promise<number> {
+    return (await this.getAll()).filter(entry => !entry.rejectedAt).length;
+  }
+
+  // Orders the server refused; they stay here until the cashier discards them
+  static async rejected(): Promise<PendingOrder[]> {
+    return (await this.getAll()).filter(entry => !!entry.rejectedAt);
+  }
+
+  static async remove(id: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(id));
+  }
+
+  // Replays queued orders oldest-first, skipping rejected ones; stops at the first network failure
+  static flush(): Promise<OutboxFlushResult> {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private static async replay(): Promise<OutboxFlushResult> {
+    const pending = (await this.getAll()).filter(entry => !entry.rejectedAt);
+    let synced = 0;
+    let rejected = 0;
+    let failed = 0;
+
+    for (const entry of pending) {
+      try {
+        await ApiService.createOrder(entry.payload, { idempotencyKey: entry.idempotencyKey });
+        await this.remove(entry.id);
+        synced++;
+      } catch (error) {
+        if (this.isOfflineError(error)) break;
+        const err = error as ApiError;
+        // The server already booked this key on an earlier attempt whose response was lost
+        if (err.status === 409 && err.code === IDEMPOTENT_REPLAY) {
+          await this.remove(entry.id);
+          synced++;
+          continue;
+        }
+        const refused = REJECTIONS.includes(err.status || 0);
+        if (refused) rejected++;
+        else failed++;
+        await this.run('readwrite', store => store.put({
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: err.message,
+          rejectedAt: refused ? new Date().toISOString() : undefined,
+        }));
+        // Every later entry would hit the same expired session
+        if (isAuthError(err.status)) break;
+      }
+    }
+
+    return { synced, rejected, failed, remaining: await this.count() };
+  }
+}
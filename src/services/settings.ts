@@ -0,0 +1,91 @@
+import type { ShopSettings } from '../types';
+import { ApiService } from './api';
+
+const STORAGE_KEY = 'shop-settings';
+
+// Local-first shop settings: cached in localStorage, synced with the settings endpoint when reachable
+export class SettingsService {
+  static readonly defaults: ShopSettings = {
+    shopName: 'Elite Sports',
+    address: '',
+    gstin: '',
+    pricesIncludeGst: true,
+    upiVpa: import.meta.env.VITE_UPI_VPA || '',
+    invoiceFooter: 'Thank you for your business!',
+    lowStockThreshold: 5,
+    defaultPaymentMethod: 'CASH',
+    loyaltyPointsPer100: 1,
+    loyaltyPointValue: 1,
+    maxDiscountPercent: 100,
+    minMarginPercent: 0,
+    managerPinSet: false,
+  };
+
+  // Fills gaps and drops wrongly-typed fields so a partial or stale payload never breaks consumers
+  static normalize(raw: Partial<ShopSettings> | null | undefined): ShopSettings {
+    const d = this.defaults;
+    const str = (v: unknown, fallback: string) => (typeof v === 'string' ? v : fallback);
+    const threshold = Number(raw?.lowStockThreshold);
+    const nonNegative = (v: unknown, fallback: number) => {
+      const n = Number(v);
+      return v !== undefined && v !== null && v !== '' && Number.isFinite(n) && n >= 0 ? n : fallback;
+    };
+    return {
+      shopName: str(raw?.shopName, d.shopName),
+      address: str(raw?.address, d.address),
+      gstin: str(raw?.gstin, d.gstin).toUpperCase(),
+      pricesIncludeGst: typeof raw?.pricesIncludeGst === 'boolean' ? raw.pricesIncludeGst : d.pricesIncludeGst,
+      upiVpa: str(raw?.upiVpa, d.upiVpa),
+      invoiceFooter: str(raw?.invoiceFooter, d.invoiceFooter),
+      lowStockThreshold: Number.isFinite(threshold) && threshold >= 0 ? Math.floor(threshold) : d.lowStockThreshold,
+      defaultPaymentMethod: raw?.defaultPaymentMethod === 'UPI' ? 'UPI' : 'CASH',
+      loyaltyPointsPer100: nonNegative(raw?.loyaltyPointsPer100, d.loyaltyPointsPer100),
+      loyaltyPointValue: nonNegative(raw?.loyaltyPointValue, d.loyaltyPointValue),
+      maxDiscountPercent: Math.min(100, nonNegative(raw?.maxDiscountPercent, d.maxDiscountPercent)),
+      minMarginPercent: nonNegative(raw?.minMarginPercent, d.minMarginPercent),
+      managerPinSet: typeof raw?.managerPinSet === 'boolean' ? raw.managerPinSet : d.managerPinSet,
+      updatedAt: typeof raw?.updatedAt === 'string' ? raw.updatedAt : undefined,
+    };
+  }
+
+  static loadLocal(): ShopSettings {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return this.normalize(stored ? JSON.parse(stored) : null);
+    } catch {
+      return this.normalize(null);
+    }
+  }
+
+  private static saveLocal(settings: ShopSettings) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  // Server copy wins when available; otherwise the cached copy is used as-is
+  static async fetch(): Promise<ShopSettings> {
+    const local = this.loadLocal();
+    try {
+      const remote = await ApiService.getSettings();
+      if (!remote || typeof remote !== 'object') return local;
+      const merged = this.normalize({ ...local, ...remote });
+      this.saveLocal(merged);
+      return merged;
+    } catch (error) {
+      console.error('Failed to fetch settings, using cached copy:', error);
+      return local;
+    }
+  }
+
+  // Always persists locally; `synced` reports whether the server accepted the update
+  static async save(settings: ShopSettings): Promise<{ settings: ShopSettings; synced: boolean }> {
+    const next = this.normalize({ ...settings, updatedAt: new Date().toISOString() });
+    this.saveLocal(next);
+    try {
+      await ApiService.updateSettings(next);
+      return { settings: next, synced: true };
+    } catch (error) {
+      console.error('Failed to sync settings:', error);
+      return { settings: next, synced: false };
+    }
+  }
+}
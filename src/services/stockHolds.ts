@@ -0,0 +1,108 @@
+import type { ApiError, CartItem, StockHold, StockHoldRequest } from '../types';
+import { ApiService } from './api';
+import { OrderOutbox } from './orderOutbox';
+import { CartStock } from '../utils/cartStock';
+
+// Conflict messages keyed by cart line
+export type StockConflicts = Record<string, string>;
+
+// Server-side holds on the units in this terminal's cart, one per cart line. Holds are best effort:
+// offline or failing requests leave the cart alone and the server still checks stock on createOrder.
+export class StockHolds {
+  static readonly renewIntervalMs = 60_000;
+
+  private static holds = new Map<string, StockHold>();
+  private static names = new Map<string, string>(); // product names for conflict messages
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  // Runs one task at a time so rapid +/- clicks never race each other
+  private static enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task, task);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private static conflictMessage(error: ApiError, request: StockHoldRequest, name: string): string {
+    return error.message && error.message !== 'Request failed'
+      ? error.message
+      : `${name} (${request.size}) was just sold elsewhere; only part of the ${request.qty} you want is left.`;
+  }
+
+  // Places or resizes one line's hold; an expired hold (404) is replaced by a new one
+  private static async place(key: string, request: StockHoldRequest, name: string, conflicts: StockConflicts) {
+    const existing = this.holds.get(key);
+    try {
+      if (existing) {
+        try {
+          this.holds.set(key, await ApiService.updateStockHold(existing._id, request.qty));
+          return;
+        } catch (error) {
+          if ((error as ApiError).status !== 404) throw error;
+          this.holds.delete(key);
+        }
+      }
+      this.holds.set(key, await ApiService.reserveStock(request));
+    } catch (error) {
+      const err = error as ApiError;
+      if (err.status === 409) conflicts[key] = this.conflictMessage(err, request, name);
+      else if (!OrderOutbox.isOfflineError(error)) console.error('Failed to hold stock:', error);
+    }
+  }
+
+  // Brings the holds in line with the cart: new lines are held, changed quantities resized, removed lines released
+  static sync(items: CartItem[]): Promise<StockConflicts> {
+    return this.enqueue(async () => {
+      const conflicts: StockConflicts = {};
+      const wanted = new Map(items.filter(item => !item.misc).map(item => [CartStock.lineKey(item), item]));
+      for (const [key, hold] of Array.from(this.holds)) {
+        if (wanted.has(key)) continue;
+        this.holds.delete(key);
+        this.names.delete(key);
+        await ApiService.releaseStockHold(hold._id).catch(error => console.error('Failed to release stock hold:', error));
+      }
+      for (const [key, item] of Array.from(wanted)) {
+        this.names.set(key, item.name);
+        if (this.holds.get(key)?.qty === item.cartQuantity) continue;
+        await this.place(key, { productId: item._id, size: item.selectedSize, qty: item.cartQuantity }, item.name, conflicts);
+      }
+      return conflicts;
+    });
+  }
+
+  // Keeps the holds alive while the cart is open; a hold that lapsed meanwhile is placed again
+  static renew(): Promise<StockConflicts> {
+    return this.enqueue(async () => {
+      const conflicts: StockConflicts = {};
+      for (const [key, hold] of Array.from(this.holds)) {
+        try {
+          this.holds.set(key, await ApiService.renewStockHold(hold._id));
+        } catch (error) {
+          if ((error as ApiError).status !== 404) continue;
+          this.holds.delete(key);
+          await this.place(key, { productId: hold.productId, size: hold.size, qty: hold.qty }, this.names.get(key) || 'An item', conflicts);
+        }
+      }
+      return conflicts;
+    });
+  }
+
+  static ids(): string[] {
+    return Array.from(this.holds.values(), hold => hold._id);
+  }
+
+  // After a sale the server has converted the holds, so they are dropped without releasing
+  static forget() {
+    this.holds.clear();
+    this.names.clear();
+  }
+
+  // Fired immediately (not queued) so the requests still carry the auth token on logout
+  static releaseAll() {
+    const holds = Array.from(this.holds.values());
+    this.holds.clear();
+    this.names.clear();
+    holds.forEach(hold => {
+      ApiService.releaseStockHold(hold._id).catch(error => console.error('Failed to release stock hold:', error));
+    });
+  }
+}
@@ -0,0 +1,165 @@
+import type { ReceiptPaper } from '../utils/receiptGenerator';
+
+const STORAGE_KEY = 'thermal-printer';
+
+// Most USB and Bluetooth-serial receipt printers ship at 9600 baud
+const BAUD_RATE = 9600;
+
+// Larger USB transfers are rejected by some printers' buffers
+const CHUNK_SIZE = 4096;
+
+// Minimal typing for WebUSB and Web Serial (not yet in lib.dom)
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+  type: 'bulk' | 'interrupt' | 'isochronous';
+}
+
+interface UsbInterface {
+  interfaceNumber: number;
+  alternate: { endpoints: UsbEndpoint[] };
+}
+
+interface UsbDevice {
+  productName?: string;
+  configuration: { interfaces: UsbInterface[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(value: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+
+interface SerialPortLike {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface DeviceNavigator {
+  usb?: {
+    requestDevice(options: { filters: object[] }): Promise<UsbDevice>;
+    getDevices(): Promise<UsbDevice[]>;
+  };
+  serial?: {
+    requestPort(): Promise<SerialPortLike>;
+    getPorts(): Promise<SerialPortLike[]>;
+  };
+}
+
+export type PrinterConnection = 'usb' | 'serial';
+
+export interface PrinterConfig {
+  connection?: PrinterConnection; // unset until a printer has been paired on this device
+  name?: string;
+  paper: ReceiptPaper;
+}
+
+const devices = () => navigator as unknown as DeviceNavigator;
+
+// Sends ESC/POS bytes straight to a receipt printer. The pairing is per device (localStorage), since
+// each counter has its own printer; the browser remembers the permission once the user picks one.
+export class ThermalPrinter {
+  static supported(): PrinterConnection[] {
+    if (typeof navigator === 'undefined') return [];
+    return [...(devices().usb ? ['usb' as const] : []), ...(devices().serial ? ['serial' as const] : [])];
+  }
+
+  static config(): PrinterConfig {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+      return {
+        connection: stored.connection === 'usb' || stored.connection === 'serial' ? stored.connection : undefined,
+        name: typeof stored.name === 'string' ? stored.name : undefined,
+        paper: stored.paper === '58' ? '58' : '80',
+      };
+    } catch {
+      return { paper: '80' };
+    }
+  }
+
+  private static write(config: PrinterConfig) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  }
+
+  static setPaper(paper: ReceiptPaper): PrinterConfig {
+    const next = { ...this.config(), paper };
+    this.write(next);
+    return next;
+  }
+
+  // Must run from a click: both APIs only show their device picker in response to a user gesture
+  static async pair(connection: PrinterConnection): Promise<PrinterConfig> {
+    const { usb, serial } = devices();
+    let name: string;
+    if (connection === 'usb') {
+      if (!usb) throw new Error('USB printing is not supported in this browser');
+      // No filter: many receipt printers report a vendor-specific class rather than the printer class
+      const device = await usb.requestDevice({ filters: [] });
+      name = device.productName || 'USB printer';
+    } else {
+      if (!serial) throw new Error('Serial printing is not supported in this browser');
+      await serial.requestPort();
+      name = 'Serial printer';
+    }
+    const next = { ...this.config(), connection, name };
+    this.write(next);
+    return next;
+  }
+
+  static forget(): PrinterConfig {
+    const next: PrinterConfig = { paper: this.config().paper };
+    this.write(next);
+    return next;
+  }
+
+  static isPaired(): boolean {
+    return !!this.config().connection;
+  }
+
+  static async print(bytes: Uint8Array): Promise<void> {
+    const { connection, name } = this.config();
+    if (connection === 'usb') return this.printUsb(bytes, name);
+    if (connection === 'serial') return this.printSerial(bytes);
+    throw new Error('No receipt printer is paired on this device');
+  }
+
+  private static async printUsb(bytes: Uint8Array, name?: string): Promise<void> {
+    const list = (await devices().usb?.getDevices()) || [];
+    const device = list.find(d => d.productName === name) || list[0];
+    if (!device) throw new Error('The paired USB printer is not connected');
+
+    await device.open();
+    try {
+      if (!device.configuration) await device.selectConfiguration(1);
+      const target = device.configuration?.interfaces
+        .map(iface => ({ iface, endpoint: iface.alternate.endpoints.find(e => e.direction === 'out' && e.type === 'bulk') }))
+        .find(match => match.endpoint);
+      if (!target?.endpoint) throw new Error('The USB device has no printer output');
+      await device.claimInterface(target.iface.interfaceNumber);
+      for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+        await device.transferOut(target.endpoint.endpointNumber, bytes.subarray(offset, offset + CHUNK_SIZE));
+      }
+    } finally {
+      await device.close().catch(() => undefined);
+    }
+  }
+
+  private static async printSerial(bytes: Uint8Array): Promise<void> {
+    const [port] = (await devices().serial?.getPorts()) || [];
+    if (!port) throw new Error('The paired serial printer is not connected');
+
+    await port.open({ baudRate: BAUD_RATE });
+    try {
+      const writer = port.writable?.getWriter();
+      if (!writer) throw new Error('The serial printer is not writable');
+      try {
+        await writer.write(bytes);
+      } finally {
+        writer.releaseLock();
+      }
+    } finally {
+      await port.close().catch(() => undefined);
+    }
+  }
+}
@@ -18,6 +18,9 @@ export interface Product {
 export interface ProductSize {
   size: string;
   quantity: number;
+  sku?: string;
+  barcode?: string; // variant barcode; falls back to Product.barcode when absent
+  price?: number; // retail price override for this size
 }
 
 export interface ProductFormData {
@@ -37,14 +40,41 @@ export interface CartItem extends Product {
   cartQuantity: number;
   quantity: number; // Total quantity for cart display
   selectedSize: string;
+  selectedSku?: string;
+  selectedBarcode?: string;
+  misc?: boolean; // open-price quick-sale line; _id is local and there is no catalog product or stock behind it
+}
+
+// What the cashier keys in for a quick-sale line
+export interface MiscItemInput {
+  description: string;
+  price: number; // per unit, in the shop's pricing mode like catalog retail prices (see ShopSettings.pricesIncludeGst)
+  gst: number; // rate in percent
+  hsnSac?: string;
 }
 
 export interface OrderItem {
-  product: string | Product; // Product ID for API or populated Product object
+  product?: string | Product; // Product ID for API or populated Product object; absent on quick-sale lines
+  name?: string; // description of a quick-sale line
+  gst?: number; // quick-sale lines carry their own GST rate and HSN
+  hsnSac?: string;
   size: string;
+  sku?: string;
   qty: number;
   price: number;
   subtotal?: number;
+  promoDiscount?: number; // total promotion discount on this line
+  lineDiscount?: number; // manual ₹ discount on this line, taken after promotions
+}
+
+export type PaymentMethod = 'CASH' | 'UPI' | 'CARD' | 'STORE_CREDIT';
+
+// One tender applied to an order; split payments carry several
+export interface OrderPayment {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string; // e.g. UPI transaction reference
+  details?: Record<string, string>; // tender-specific capture, e.g. card last-4 / approval code
 }
 
 export interface Order {
@@ -54,14 +84,295 @@ export interface Order {
   total: number;
   profit: number;
   customerPhone?: string;
+  customer?: string | Customer; // populated when the order is linked to the directory
   paymentStatus: 'PENDING' | 'PAID' | 'CANCELLED';
-  paymentMethod: 'CASH' | 'UPI';
+  paymentMethod: PaymentMethod; // primary (largest) tender when split
+  paymentReference?: string;
+  payments?: OrderPayment[];
   discount?: number;
   notes?: string;
+  returns?: OrderReturn[];
+  loyalty?: OrderLoyalty;
+  promotions?: AppliedPromotion[];
+  discountApproval?: DiscountApproval;
+  coupon?: OrderCoupon;
+  buyer?: GstBuyer;
+  pricesIncludeGst?: boolean; // pricing mode the sale was billed in; absent on orders from before the setting
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Registered business buying on a B2B tax invoice
+export interface GstBuyer {
+  gstin: string;
+  name?: string; // legal name as on the GST registration
+}
+
+export type DiscountMode = 'AMOUNT' | 'PERCENT';
+
+// A discount as keyed in at the till: a ₹ amount or a percentage of the line or bill
+export interface DiscountInput {
+  mode: DiscountMode;
+  value: number;
+}
+
+// Manager sign-off recorded when a sale breaks the configured discount limits
+export interface DiscountApproval {
+  token: string; // issued by the server once it has checked the manager PIN; the order is refused without it
+  approvedAt: string;
+  reason: string; // which limit was overridden, e.g. 'Below cost'
+}
+
+// Asks the server to check the manager PIN and sign an approval for this cart and discount
+export interface DiscountApprovalRequest {
+  pin: string;
+  reason: string;
+  discount: number; // manual discounts plus redeemed points; the approval covers up to this much
+  cart: string; // Discounts.cartSignature of the lines being approved
+}
+
+// Checkout code worth a fixed ₹ amount or a percentage of the eligible lines
+export interface Coupon {
+  _id: string;
+  code: string; // stored upper-case
+  valueType: DiscountMode;
+  value: number;
+  maxDiscount?: number; // ₹ cap for PERCENT coupons
+  minOrderValue?: number; // measured on the eligible lines after promotions
+  eligibleCategories?: string[]; // empty or missing means every category
+  startsAt?: string;
+  endsAt?: string;
+  usageLimit?: number; // redemptions across all customers
+  perCustomerLimit?: number; // redemptions per customer phone
+  usedCount: number;
+  active: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type CouponInput = Omit<Coupon, '_id' | 'usedCount' | 'createdAt' | 'updatedAt'>;
+
+// Lookup result; customerUses is filled when a customer phone is sent along
+export type CouponLookup = Coupon & { customerUses?: number };
+
+// Coupon redeemed on an order; its amount is already included in the order discount
+export interface OrderCoupon {
+  couponId: string;
+  code: string;
+  amount: number;
+  released?: boolean; // set once the redemption has been handed back after a cancel
+}
+
+export type PromotionRule =
+  | { type: 'CATEGORY_PERCENT'; category: string; percent: number }
+  | { type: 'BRAND_PERCENT'; brand: string; percent: number }
+  | { type: 'BUY_X_GET_Y'; buyQty: number; getQty: number; category?: string } // cheapest units in each group go free
+  | { type: 'BUNDLE_PRICE'; productIds: string[]; price: number }; // one unit of each product for a fixed price
+
+export type PromotionType = PromotionRule['type'];
+
+export interface Promotion {
+  _id: string;
+  name: string;
+  rule: PromotionRule;
+  active: boolean;
+  startsAt?: string; // ISO date range the promotion is valid for
+  endsAt?: string;
+  happyHour?: { start: string; end: string; days?: number[] }; // local 'HH:MM' window; days 0 = Sunday
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type PromotionInput = Omit<Promotion, '_id' | 'createdAt' | 'updatedAt'>;
+
+// A promotion's discount on one order line
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  itemIndex: number; // index into the order's items
+  amount: number;
+}
+
+// Loyalty points movement recorded against one order
+export interface OrderLoyalty {
+  pointsEarned: number; // accrued once the order is PAID
+  pointsRedeemed: number;
+  redeemValue: number; // ₹ taken off the bill for the redeemed points
+  reversed?: boolean; // set when cancelOrder has reversed both movements
+}
+
+export type LoyaltyEntryType = 'EARN' | 'REDEEM' | 'REVERSAL';
+
+// One line of a customer's loyalty ledger; points are signed
+export interface LoyaltyEntry {
+  _id?: string;
+  type: LoyaltyEntryType;
+  points: number;
+  orderId?: string;
+  date: string;
+}
+
+export interface LoyaltyAccount {
+  phone: string;
+  balance: number;
+  entries?: LoyaltyEntry[];
+}
+
+// Customer directory entry; phone is the lookup key
+export interface Customer {
+  _id: string;
+  name: string;
+  phone: string;
+  email?: string;
+  notes?: string;
+  lifetimeSpend: number; // sum of non-cancelled order totals
+  visitCount: number;
+  lastVisitAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type CustomerInput = Pick<Customer, 'name' | 'phone'> & Partial<Pick<Customer, 'email' | 'notes'>>;
+
+export interface CustomerListResponse {
+  customers: Customer[];
+  pagination?: PaginationResult;
+}
+
+export type RefundMethod = 'CASH' | 'UPI' | 'CREDIT_NOTE';
+
+// A returned quantity of one Order.items line
+export interface ReturnItem {
+  itemIndex: number; // index into Order.items
+  product?: string; // absent for quick-sale lines, which have no stock to put back
+  size: string;
+  qty: number;
+  amount: number; // refund value after apportioning the order discount
+}
+
+// Replacement goods handed over as part of an exchange
+export interface ExchangeItem {
+  product: string;
+  name?: string;
+  size: string;
+  qty: number;
+  price: number;
+}
+
+export interface OrderReturn {
+  _id?: string;
+  date: string;
+  items: ReturnItem[];
+  exchangeItems?: ExchangeItem[];
+  refundAmount: number; // returned value minus exchange value; negative means the customer paid the difference
+  refundMethod: RefundMethod;
+  creditNoteNumber?: string;
+  reason?: string;
+}
+
+export interface CreateReturnRequest {
+  items: ReturnItem[];
+  exchangeItems?: ExchangeItem[];
+  refundMethod: RefundMethod;
+  restock: boolean; // put returned units back into Product.sizes
+  reason?: string;
+}
+
+// Payload accepted by the create-order endpoint
+export interface CreateOrderRequest {
+  items: {
+    product?: string; // omitted on quick-sale lines, which send name, gst and hsnSac instead
+    name?: string;
+    gst?: number;
+    hsnSac?: string;
+    size: string;
+    sku?: string;
+    qty: number;
+    price: number;
+    promoDiscount?: number;
+    lineDiscount?: number;
+  }[];
+  customerPhone?: string;
+  customerId?: string;
+  loyaltyPointsRedeemed?: number; // their ₹ value is already included in discount
+  paymentMethod: PaymentMethod;
+  paymentStatus?: 'PENDING' | 'PAID';
+  paymentReference?: string; // UPI transaction reference shown in the payer's app
+  payments?: OrderPayment[];
+  promotions?: AppliedPromotion[];
+  discount?: number; // bill-level discount on top of line promotions and line discounts
+  discountApproval?: DiscountApproval;
+  coupon?: OrderCoupon;
+  buyer?: GstBuyer; // business customer, for a B2B tax invoice
+  pricesIncludeGst?: boolean; // false when GST was added on top of the catalog prices
+  total?: number; // amount charged, GST included; recorded as the order total
+  holdIds?: string[]; // stock holds the sale converts; unknown or expired ids are ignored by the server
+  notes?: string;
+}
+
+// Short-lived server-side hold on units sitting in a cart, so another terminal cannot sell them
+export interface StockHold {
+  _id: string;
+  productId: string;
+  size: string;
+  qty: number;
+  expiresAt: string;
+}
+
+export type StockHoldRequest = Pick<StockHold, 'productId' | 'size' | 'qty'>;
+
+// On-hand quantity of one product size, as broadcast by the live inventory feed
+export interface StockLevel {
+  productId: string;
+  size: string;
+  quantity: number;
+}
+
+export interface StockChangesResponse {
+  levels: StockLevel[];
+  cursor: string; // pass back as `since` on the next poll
+}
+
+// Cart parked while another customer is served; lines keep the prices they were parked at
+export interface HeldCart {
+  id: string;
+  name: string;
+  items: CartItem[];
+  createdAt: string;
+}
+
+// Checkout form fields kept alongside the active cart so they survive tab switches and reloads
+export interface CheckoutDraft {
+  customerPhone: string;
+  discount: string;
+  discountMode: DiscountMode;
+  notes: string;
+  paymentMethod: PaymentMethod;
+}
+
+// Checkout form output handed from Cart to App
+export type CheckoutDetails = Omit<CreateOrderRequest, 'items' | 'paymentStatus'> & {
+  paymentStatus: 'PENDING' | 'PAID';
+  lineDiscounts?: number[]; // ₹ per cart line, indexed like the cart items
+};
+
+// Order waiting in the offline outbox for replay
+export interface PendingOrder {
+  id: string;
+  idempotencyKey: string;
+  payload: CreateOrderRequest;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+  rejectedAt?: string; // set when the server refused the sale; it is not replayed again
+}
+
+export interface CouponUsage {
+  code: string;
+  count: number;
+  amount: number;
+}
+
 export interface OrderResponse {
   orders: Order[];
   analytics: {
@@ -69,6 +380,9 @@ export interface OrderResponse {
     totalRevenue: number;
     totalProfit: number;
     avgOrderPrice: number;
+    totalRefunds?: number;
+    revenueByTender?: Partial<Record<PaymentMethod, number>>;
+    couponUsage?: CouponUsage[];
   };
   pagination: {
     currentPage: number;
@@ -96,7 +410,25 @@ export interface QuantityChange {
   newQuantity: number;
 }
 
-export type ActiveTab = 'products' | 'cart' | 'history' | 'manage-products' | 'settings';
+// Shop-wide configuration edited on the Settings tab
+export interface ShopSettings {
+  shopName: string;
+  address: string;
+  gstin: string;
+  pricesIncludeGst: boolean; // catalog prices are GST-inclusive (MRP style); false adds GST on top at checkout
+  upiVpa: string;
+  invoiceFooter: string;
+  lowStockThreshold: number;
+  defaultPaymentMethod: PaymentMethod;
+  loyaltyPointsPer100: number; // points earned per ₹100 paid; 0 turns the programme off
+  loyaltyPointValue: number; // ₹ value of one point at redemption
+  maxDiscountPercent: number; // cap on manual discounts as % of the subtotal; 100 means no cap
+  minMarginPercent: number; // required markup over wholesale cost after discounts
+  managerPinSet: boolean; // an override PIN is set; the PIN is only ever checked by the server
+  updatedAt?: string;
+}
+
+export type ActiveTab = 'products' | 'cart' | 'history' | 'manage-products' | 'settings' | 'customers' | 'promotions' | 'coupons';
 
 export interface AuthResponse {
   success: boolean;
@@ -132,22 +464,69 @@ export interface ApiError {
   message: string;
 }
 
-// Invoice data (used by invoice generation endpoint)
+// One invoice line; tax figures come from Product.gst and Product.hsnSac (or the quick-sale line's own)
+export interface InvoiceLine {
+  productId?: string;
+  name: string;
+  size: string;
+  qty: number;
+  price: number;
+  subtotal: number;
+  promoDiscount?: number;
+  lineDiscount?: number;
+  hsnSac?: string;
+  gstRate: number;
+  unitPriceExcl: number; // per unit, before GST
+  lineGstAmount: number;
+  lineTotal: number; // taxable value plus GST
+}
+
+// Intra-state supply charges CGST + SGST (half the rate each), inter-state supply charges IGST
+export interface GstSplit {
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface HsnSummaryRow extends GstSplit {
+  hsnSac: string; // '' when the lines carry no code
+  rate: number;
+  qty: number;
+}
+
+// Invoice data as returned by the invoice endpoint, after InvoiceSchema.decode has filled any gaps
 export interface InvoiceData {
   orderId: string;
   date?: string;
   customerPhone?: string;
-  paymentMethod?: 'CASH' | 'UPI';
+  paymentMethod?: PaymentMethod;
+  payments?: OrderPayment[];
   discount?: number;
   notes?: string;
-  items: Array<{
-    productId?: string;
-    name: string;
-    size: string;
-    qty: number;
-    price: number;
-    subtotal: number;
-  }>;
+  loyalty?: OrderLoyalty & { balance?: number };
+  promotions?: AppliedPromotion[];
+  coupon?: OrderCoupon;
+  buyer?: GstBuyer;
+  placeOfSupply?: string; // two-digit state code; defaults to the buyer's GSTIN state, else the shop's
+  pricesIncludeGst?: boolean; // pricing mode the sale was billed in, when the payload says
+  shop: { name: string; gstin?: string; address?: string };
+  invoice: {
+    id: string;
+    date: string;
+    paymentMethod?: PaymentMethod;
+    payments?: OrderPayment[];
+    customerPhone?: string;
+    notes?: string;
+  };
+  items: InvoiceLine[];
+  totals: {
+    baseAmount: number; // taxable value of all lines
+    gstAmount: number;
+    discount: number;
+    grandTotal: number;
+  };
+  gstBreakup: { rate: number; amount: number }[];
   total: number;
   profit?: number;
 }
\ No newline at end of file
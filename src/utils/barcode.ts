@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+
+// Minimal typing for the Shape Detection API (not yet in lib.dom)
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeDetectorInstance;
+}
+
+export const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const isCameraScanSupported = () =>
+  typeof window !== 'undefined' && !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+// Wedge scanners "type" the code much faster than a person and finish with Enter
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+const isEditableTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+};
+
+/**
+ * Listens for keyboard-wedge scanner input while `enabled`.
+ * Keystrokes aimed at form fields are left alone so typing still works.
+ */
+export const useBarcodeScanner = (enabled: boolean, onScan: (code: string) => void) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+        return;
+      }
+      if (e.key.length === 1) buffer += e.key;
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+};
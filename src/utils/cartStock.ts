@@ -0,0 +1,67 @@
+import type { CartItem, MiscItemInput, Product } from '../types';
+
+export interface CartReconcileResult {
+  items: CartItem[];
+  dropped: string[]; // names of lines whose product or size is gone or sold out
+  clamped: string[]; // names of lines cut down to the stock that is left
+}
+
+export class CartStock {
+  // One cart line per product and size, so the same product in M and L stays two separate lines
+  static lineKey(item: Pick<CartItem, '_id' | 'selectedSize'>): string {
+    return `${item._id}::${item.selectedSize}`;
+  }
+
+  // Quick-sale line for something not in the catalog; each one is its own line even with the same description
+  static miscLine(input: MiscItemInput): CartItem {
+    return {
+      _id: `misc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: input.description.trim(),
+      category: 'Misc',
+      wholesalePrice: 0, // cost is unknown, so the whole price counts as profit
+      retailPrice: input.price,
+      sizes: [],
+      gst: input.gst,
+      hsnSac: input.hsnSac?.trim() || undefined,
+      cartQuantity: 1,
+      quantity: 0,
+      selectedSize: '-',
+      misc: true,
+    };
+  }
+
+  // Quick-sale lines have no stock to run out of
+  static stockLimit(item: CartItem): number {
+    return item.misc ? Infinity : item.quantity;
+  }
+
+  // Re-checks cart lines against current Product.sizes, e.g. after a cart was parked or restored
+  static reconcile(items: CartItem[], products: Product[]): CartReconcileResult {
+    const dropped: string[] = [];
+    const clamped: string[] = [];
+    const kept: CartItem[] = [];
+    items.forEach(item => {
+      if (item.misc) {
+        kept.push(item);
+        return;
+      }
+      const label = `${item.name} (${item.selectedSize})`;
+      const product = products.find(p => p._id === item._id);
+      const stock = product?.sizes.find(s => s.size === item.selectedSize)?.quantity ?? 0;
+      if (stock <= 0) {
+        dropped.push(label);
+        return;
+      }
+      if (item.cartQuantity > stock) clamped.push(label);
+      kept.push({ ...item, sizes: product!.sizes, quantity: stock, cartQuantity: Math.min(item.cartQuantity, stock) });
+    });
+    return { items: kept, dropped, clamped };
+  }
+
+  static describe(result: CartReconcileResult): string {
+    const parts: string[] = [];
+    if (result.dropped.length) parts.push(`removed (out of stock): ${result.dropped.join(', ')}`);
+    if (result.clamped.length) parts.push(`reduced to available stock: ${result.clamped.join(', ')}`);
+    return parts.join('; ');
+  }
+}
@@ -0,0 +1,65 @@
+import type { CartItem, Coupon, CouponLookup, CouponUsage, Order, OrderCoupon } from '../types';
+
+export interface CouponResult {
+  amount: number;
+  error?: string; // why the coupon cannot be used on this cart
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export class Coupons {
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  static describe(coupon: Coupon): string {
+    const value = coupon.valueType === 'PERCENT'
+      ? `${coupon.value}% off${coupon.maxDiscount ? ` (max ₹${coupon.maxDiscount})` : ''}`
+      : `₹${coupon.value} off`;
+    const categories = coupon.eligibleCategories?.length ? ` ${coupon.eligibleCategories.join(', ')}` : '';
+    const minimum = coupon.minOrderValue ? ` over ₹${coupon.minOrderValue}` : '';
+    return `${value}${categories}${minimum}`;
+  }
+
+  // lineNets are each cart line's value after promotions and line discounts; payable caps the result
+  static evaluate(coupon: CouponLookup, items: CartItem[], lineNets: number[], payable: number, now: Date = new Date()): CouponResult {
+    if (!coupon.active) return { amount: 0, error: `${coupon.code} is not active` };
+    if (coupon.startsAt && now < new Date(coupon.startsAt)) return { amount: 0, error: `${coupon.code} is not valid yet` };
+    if (coupon.endsAt && now > new Date(coupon.endsAt)) return { amount: 0, error: `${coupon.code} has expired` };
+    if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) return { amount: 0, error: `${coupon.code} has been fully redeemed` };
+    if (coupon.perCustomerLimit && (coupon.customerUses || 0) >= coupon.perCustomerLimit) {
+      return { amount: 0, error: `This customer has already used ${coupon.code}` };
+    }
+
+    const categories = coupon.eligibleCategories || [];
+    const eligible = round(items.reduce((sum, item, i) => (
+      !categories.length || categories.includes(item.category) ? sum + (lineNets[i] || 0) : sum
+    ), 0));
+    if (eligible <= 0) return { amount: 0, error: `No items in the cart are eligible for ${coupon.code}` };
+    if (coupon.minOrderValue && eligible < coupon.minOrderValue) {
+      return { amount: 0, error: `${coupon.code} needs ₹${coupon.minOrderValue} of eligible items` };
+    }
+
+    const raw = coupon.valueType === 'PERCENT'
+      ? Math.min((eligible * Math.min(100, coupon.value)) / 100, coupon.maxDiscount || Infinity)
+      : coupon.value;
+    return { amount: round(Math.max(0, Math.min(raw, eligible, payable))) };
+  }
+
+  // What cancelling releases, for confirmation prompts; empty when nothing is held
+  static describeRelease(coupon?: OrderCoupon): string {
+    return coupon && !coupon.released ? `coupon ${coupon.code} will be released` : '';
+  }
+
+  static usage(orders: Order[]): CouponUsage[] {
+    const totals = new Map<string, CouponUsage>();
+    orders
+      .filter(o => o.coupon && o.paymentStatus !== 'CANCELLED')
+      .forEach(o => {
+        const { code, amount } = o.coupon!;
+        const entry = totals.get(code) || { code, count: 0, amount: 0 };
+        totals.set(code, { code, count: entry.count + 1, amount: round(entry.amount + amount) });
+      });
+    return Array.from(totals.values()).sort((a, b) => b.count - a.count);
+  }
+}
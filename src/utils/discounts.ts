@@ -0,0 +1,65 @@
+import type { DiscountInput, ShopSettings } from '../types';
+
+// Where a sale stands against the shop's discount limits
+export interface DiscountCheck {
+  discountPercent: number; // manual discounts as % of the subtotal
+  markupPercent: number; // net revenue over wholesale cost
+  exceedsMax: boolean;
+  belowMargin: boolean;
+  belowCost: boolean;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export class Discounts {
+  // ₹ value of a keyed-in discount against the amount it applies to, never more than that amount
+  static amountOf(input: DiscountInput | undefined, base: number): number {
+    if (!input || !(input.value > 0) || base <= 0) return 0;
+    const raw = input.mode === 'PERCENT' ? (base * Math.min(100, input.value)) / 100 : input.value;
+    return round(Math.min(base, raw));
+  }
+
+  static describe(input: DiscountInput): string {
+    return input.mode === 'PERCENT' ? `${input.value}%` : `₹${input.value}`;
+  }
+
+  // Promotions are set up by the shop, so only the manual discount counts towards the cap;
+  // the margin is checked on what is actually left after every discount. Redeemed points are the
+  // customer's choice, so like a manual discount they can trip the margin and cost limits.
+  static check(
+    sale: { subtotal: number; cost: number; promotions: number; manual: number; redeemed?: number },
+    settings: ShopSettings
+  ): DiscountCheck {
+    const redeemed = sale.redeemed || 0;
+    const net = sale.subtotal - sale.promotions - sale.manual - redeemed;
+    const discountPercent = sale.subtotal > 0 ? round((sale.manual / sale.subtotal) * 100) : 0;
+    const markupPercent = sale.cost > 0 ? round(((net - sale.cost) / sale.cost) * 100) : 100;
+    const discounted = sale.manual > 0 || redeemed > 0;
+    return {
+      discountPercent,
+      markupPercent,
+      exceedsMax: discounted && discountPercent > settings.maxDiscountPercent,
+      belowMargin: discounted && markupPercent < settings.minMarginPercent,
+      belowCost: discounted && net < sale.cost,
+    };
+  }
+
+  static needsApproval(check: DiscountCheck): boolean {
+    return check.exceedsMax || check.belowMargin || check.belowCost;
+  }
+
+  // Human-readable limits a sale breaks, for the approval prompt and the order record
+  static violations(check: DiscountCheck, settings: ShopSettings): string[] {
+    const reasons: string[] = [];
+    if (check.belowCost) reasons.push('Below cost');
+    else if (check.belowMargin) reasons.push(`Margin ${check.markupPercent}% is under the ${settings.minMarginPercent}% minimum`);
+    if (check.exceedsMax) reasons.push(`Discount ${check.discountPercent}% is over the ${settings.maxDiscountPercent}% limit`);
+    return reasons;
+  }
+
+  // Identifies the lines an approval was given for, in the shape the order sends them, so the server
+  // can match the approval to the order and the cart can drop it once the lines change
+  static cartSignature(lines: { product?: string; name?: string; size: string; qty: number; price: number }[]): string {
+    return lines.map(line => [line.product ?? line.name ?? '', line.size, line.qty, line.price].join(':')).join('|');
+  }
+}
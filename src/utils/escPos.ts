@@ -0,0 +1,70 @@
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Builds ESC/POS byte streams for thermal receipt printers. Text is sent as plain ASCII because
+// code pages differ between printers; use `EscPos.ascii` to fold text before laying it out.
+export class EscPos {
+  private data: number[] = [ESC, 0x40]; // ESC @ resets the printer
+
+  // Strips accents and replaces anything else outside ASCII so every printer shows the same thing
+  static ascii(text: string): string {
+    return text
+      .replace(/₹/g, 'Rs.')
+      .replace(/[\u2018\u2019]/g, "'")
+      .replace(/[\u201c\u201d]/g, '"')
+      .replace(/[\u2013\u2014]/g, '-')
+      .replace(/·/g, '-')
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\x20-\x7e\n]/g, '?');
+  }
+
+  align(align: 'left' | 'center' | 'right'): this {
+    return this.push(ESC, 0x61, align === 'center' ? 1 : align === 'right' ? 2 : 0);
+  }
+
+  bold(on: boolean): this {
+    return this.push(ESC, 0x45, on ? 1 : 0);
+  }
+
+  // Double height keeps the character width, so lines laid out for the paper still fit
+  tall(on: boolean): this {
+    return this.push(GS, 0x21, on ? 0x01 : 0x00);
+  }
+
+  line(text = ''): this {
+    for (const ch of EscPos.ascii(text)) this.data.push(ch.charCodeAt(0));
+    return this.push(LF);
+  }
+
+  feed(lines: number): this {
+    return this.push(ESC, 0x64, Math.max(0, Math.min(255, lines)));
+  }
+
+  // Native QR (GS ( k): model 2, error correction M; printers without it skip the block
+  qr(text: string, moduleSize = 6): this {
+    const payload = Array.from(EscPos.ascii(text), ch => ch.charCodeAt(0));
+    const length = payload.length + 3;
+    return this
+      .push(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0)
+      .push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, Math.max(1, Math.min(16, moduleSize)))
+      .push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31)
+      .push(GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...payload)
+      .push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
+  }
+
+  // Feeds past the cutter and makes a partial cut
+  cut(): this {
+    return this.push(GS, 0x56, 0x42, 0x03);
+  }
+
+  bytes(): Uint8Array {
+    return Uint8Array.from(this.data);
+  }
+
+  private push(...bytes: number[]): this {
+    this.data.push(...bytes);
+    return this;
+  }
+}
@@ -0,0 +1,87 @@
+import type { GstSplit, HsnSummaryRow, InvoiceLine } from '../types';
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// GST state codes (the first two digits of a GSTIN)
+const STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh', '05': 'Uttarakhand',
+  '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh', '10': 'Bihar', '11': 'Sikkim',
+  '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur', '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya',
+  '18': 'Assam', '19': 'West Bengal', '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh',
+  '24': 'Gujarat', '26': 'Dadra and Nagar Haveli and Daman and Diu', '27': 'Maharashtra', '29': 'Karnataka', '30': 'Goa',
+  '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry', '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh', '97': 'Other Territory',
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export class Gst {
+  static normalizeGstin(gstin: string): string {
+    return gstin.replace(/\s/g, '').toUpperCase();
+  }
+
+  static isValidGstin(gstin: string): boolean {
+    const value = this.normalizeGstin(gstin);
+    return GSTIN_PATTERN.test(value) && !!STATES[value.slice(0, 2)];
+  }
+
+  static stateOf(gstin?: string): string | undefined {
+    const code = gstin ? this.normalizeGstin(gstin).slice(0, 2) : '';
+    return STATES[code] ? code : undefined;
+  }
+
+  static describeState(code?: string): string {
+    return code && STATES[code] ? `${code} - ${STATES[code]}` : '';
+  }
+
+  // Counter sales are supplied where the shop is; a registered buyer's GSTIN state decides otherwise
+  static placeOfSupply(shopGstin?: string, buyerGstin?: string, explicit?: string): string | undefined {
+    return (explicit && STATES[explicit] ? explicit : undefined) || this.stateOf(buyerGstin) || this.stateOf(shopGstin);
+  }
+
+  // Unregistered shops have no state to compare with, so they are treated as intra-state
+  static isInterState(shopGstin?: string, placeOfSupply?: string): boolean {
+    const shopState = this.stateOf(shopGstin);
+    return !!shopState && !!placeOfSupply && shopState !== placeOfSupply;
+  }
+
+  // CGST takes the rounded half and SGST the rest, so the two always add up to the line's GST
+  static split(taxable: number, gst: number, interState: boolean): GstSplit {
+    if (interState) return { taxable: round(taxable), cgst: 0, sgst: 0, igst: round(gst) };
+    const cgst = round(gst / 2);
+    return { taxable: round(taxable), cgst, sgst: round(gst - cgst), igst: 0 };
+  }
+
+  static splitLine(line: InvoiceLine, interState: boolean): GstSplit {
+    return this.split(line.lineTotal - line.lineGstAmount, line.lineGstAmount, interState);
+  }
+
+  // One row per HSN code and rate, as the HSN-wise summary on a tax invoice
+  static hsnSummary(lines: InvoiceLine[], interState: boolean): HsnSummaryRow[] {
+    const rows = new Map<string, HsnSummaryRow>();
+    lines.forEach(line => {
+      const hsnSac = line.hsnSac?.trim() || '';
+      const key = `${hsnSac}|${line.gstRate}`;
+      const part = this.splitLine(line, interState);
+      const row = rows.get(key) || { hsnSac, rate: line.gstRate, qty: 0, taxable: 0, cgst: 0, sgst: 0, igst: 0 };
+      rows.set(key, {
+        ...row,
+        qty: row.qty + line.qty,
+        taxable: round(row.taxable + part.taxable),
+        cgst: round(row.cgst + part.cgst),
+        sgst: round(row.sgst + part.sgst),
+        igst: round(row.igst + part.igst),
+      });
+    });
+    return Array.from(rows.values()).sort((a, b) => a.hsnSac.localeCompare(b.hsnSac) || a.rate - b.rate);
+  }
+
+  static totals(rows: GstSplit[]): GstSplit {
+    return rows.reduce<GstSplit>((sum, row) => ({
+      taxable: round(sum.taxable + row.taxable),
+      cgst: round(sum.cgst + row.cgst),
+      sgst: round(sum.sgst + row.sgst),
+      igst: round(sum.igst + row.igst),
+    }), { taxable: 0, cgst: 0, sgst: 0, igst: 0 });
+  }
+}
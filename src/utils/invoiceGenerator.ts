@@ -1,6 +1,51 @@
-import { InvoiceData } from '../types';
+import interRegular from '@fontsource/inter/files/inter-latin-400-normal.woff?url';
+import interRegularExt from '@fontsource/inter/files/inter-latin-ext-400-normal.woff?url';
+import interBold from '@fontsource/inter/files/inter-latin-700-normal.woff?url';
+import interBoldExt from '@fontsource/inter/files/inter-latin-ext-700-normal.woff?url';
+import { InvoiceData, InvoiceLine, OrderPayment, ShopSettings } from '../types';
+import { Tenders } from './tenders';
+import { Promotions } from './promotions';
+import { Gst } from './gst';
+import { Tax } from './tax';
+import { PdfDocument, PdfFontSet, PdfFontStyle } from './pdfDocument';
+import { PdfFont } from './pdfFont';
+
+const BRAND = '#d32b26';
+const ACCENT = '#fed21c';
+const TEXT = '#333333';
+const MUTED = '#666666';
+const BORDER = '#dee2e6';
+const SHADE = '#f8f9fa';
+const MARGIN = 40;
+const LEFT = MARGIN;
+const RIGHT = PdfDocument.WIDTH - MARGIN;
+const BODY = 9;
+const SMALL = 7.5;
+
+interface Column {
+  label: string;
+  width: number; // minimum when the table has a flex column
+  align: 'left' | 'center' | 'right';
+  flex?: boolean; // wraps and gives up width so the other columns stay on one line
+}
+
+// A table cell: the main text plus optional small print underneath (promotions, discounts)
+interface Cell {
+  text: string;
+  notes?: string[];
+}
+
+// Where the next block starts; shared by the layout helpers so they can break pages
+interface Cursor {
+  doc: PdfDocument;
+  y: number;
+}
+
+type Row = [string, string];
 
 export class InvoiceGenerator {
+  private static fonts?: Promise<PdfFontSet>;
+
   private static formatCurrency(amount: number): string {
     return `₹${amount.toFixed(2)}`;
   }
@@ -13,369 +58,349 @@ export class InvoiceGenerator {
     });
   }
 
-  static async generatePDF(invoiceData: InvoiceData): Promise<void> {
-    const { shop, invoice, items, totals, gstBreakup } = invoiceData;
+  // Inter keeps ₹ in its latin-ext subset, so each weight falls back from latin to latin-ext
+  private static loadFonts(): Promise<PdfFontSet> {
+    if (!this.fonts) {
+      this.fonts = Promise.all([
+        PdfFont.fromUrl('Inter-Regular', interRegular),
+        PdfFont.fromUrl('Inter-Regular-LatinExt', interRegularExt),
+        PdfFont.fromUrl('Inter-Bold', interBold),
+        PdfFont.fromUrl('Inter-Bold-LatinExt', interBoldExt),
+      ]).then(([regular, regularExt, bold, boldExt]) => ({ regular: [regular, regularExt], bold: [bold, boldExt] }));
+      // A failed load (e.g. offline before the fonts were cached) is retried on the next invoice
+      this.fonts.catch(() => { this.fonts = undefined; });
+    }
+    return this.fonts;
+  }
+
+  // Prints the stored grand total; any paise the line figures are off by land on the GST of the taxed lines
+  static taxLines(invoiceData: InvoiceData): { items: InvoiceLine[]; total: number } {
+    const total = invoiceData.totals.grandTotal;
+    const lineSum = invoiceData.items.reduce((sum, item) => sum + Math.round(item.lineTotal * 100), 0) / 100;
+    const difference = Math.round((total - lineSum) * 100) / 100;
+    if (difference === 0) return { items: invoiceData.items, total };
+
+    const taxed = invoiceData.items.some(item => item.lineGstAmount > 0);
+    const shares = Tax.apportion(
+      Math.abs(difference),
+      invoiceData.items.map(item => (taxed ? item.lineGstAmount : item.lineTotal))
+    ).map(share => (difference < 0 ? -share : share));
+    const items = invoiceData.items.map((item, index) => ({
+      ...item,
+      lineGstAmount: taxed ? Math.round((item.lineGstAmount + shares[index]) * 100) / 100 : item.lineGstAmount,
+      lineTotal: Math.round((item.lineTotal + shares[index]) * 100) / 100,
+    }));
+    return { items, total };
+  }
+
+  // Starts a new page when the next block would run into the bottom margin
+  private static ensure(cursor: Cursor, height: number): boolean {
+    if (cursor.y + height <= PdfDocument.HEIGHT - MARGIN) return false;
+    cursor.doc.addPage();
+    cursor.y = MARGIN;
+    return true;
+  }
+
+  // Label/value rows under a heading; returns where the column ends
+  private static details(cursor: Cursor, x: number, width: number, title: string, rows: Row[]): number {
+    const { doc } = cursor;
+    let y = cursor.y + 11;
+    doc.text(title, x, y, { size: 10.5, style: 'bold', color: BRAND });
+    y += 20;
+    rows.forEach(([label, value]) => {
+      doc.text(label, x, y, { size: BODY, style: 'bold' });
+      doc.wrap(value, width - 95, BODY).forEach((line, i) => {
+        if (i > 0) y += 12;
+        doc.text(line, x + 95, y, { size: BODY });
+      });
+      y += 14;
+    });
+    return y;
+  }
+
+  // Bordered table; the header row is repeated on every page the table spills onto
+  private static table(cursor: Cursor, declared: Column[], rows: Cell[][]): void {
+    const { doc } = cursor;
+    const padding = 5;
+    const columns = this.fit(doc, declared, rows, padding);
+    const anchor = (column: Column, x: number) =>
+      column.align === 'right' ? x + column.width - padding : column.align === 'center' ? x + column.width / 2 : x + padding;
+    const layout = (cells: Cell[], style: PdfFontStyle) => cells.map((cell, i) => ({
+      lines: doc.wrap(cell.text, columns[i].width - padding * 2, BODY, style),
+      notes: cell.notes || [],
+    }));
+    const heightOf = (cells: ReturnType<typeof layout>) =>
+      Math.max(...cells.map(c => c.lines.length * 11 + c.notes.length * 10)) + 12;
+
+    const draw = (cells: ReturnType<typeof layout>, style: PdfFontStyle) => {
+      const height = heightOf(cells);
+      let x = LEFT;
+      columns.forEach((column, i) => {
+        doc.rect(x, cursor.y, column.width, height, { fill: style === 'bold' ? SHADE : undefined, stroke: BORDER });
+        let y = cursor.y + 6 + BODY;
+        cells[i].lines.forEach(line => {
+          doc.text(line, anchor(column, x), y, { size: BODY, style, color: style === 'bold' ? '#495057' : TEXT, align: column.align });
+          y += 11;
+        });
+        cells[i].notes.forEach(note => {
+          doc.text(note, anchor(column, x), y, { size: SMALL, color: MUTED, align: column.align });
+          y += 10;
+        });
+        x += column.width;
+      });
+      cursor.y += height;
+    };
+
+    const header = layout(columns.map(c => ({ text: c.label })), 'bold');
+    this.ensure(cursor, heightOf(header) * 2);
+    draw(header, 'bold');
+    rows.forEach(row => {
+      const cells = layout(row, 'regular');
+      if (this.ensure(cursor, heightOf(cells))) draw(header, 'bold');
+      draw(cells, 'regular');
+    });
+  }
 
-    // Create a new window for printing
-    const printWindow = window.open('', '_blank');
-    if (!printWindow) {
-      throw new Error('Unable to open print window. Please allow popups.');
+  // Widens every column except the flex one to its widest cell, taking the space from the flex column,
+  // so amounts and codes never break across lines; tables without a flex column are left as declared
+  private static fit(doc: PdfDocument, columns: Column[], rows: Cell[][], padding: number): Column[] {
+    const flex = columns.findIndex(column => column.flex);
+    if (flex < 0) return columns;
+    const total = columns.reduce((sum, column) => sum + column.width, 0);
+    const fitted = columns.map((column, i) => (i === flex ? column : {
+      ...column,
+      width: Math.max(
+        column.width,
+        Math.ceil(doc.widthOf(column.label, BODY, 'bold')) + padding * 2,
+        ...rows.map(row => Math.ceil(doc.widthOf(row[i].text, BODY)) + padding * 2)
+      ),
+    }));
+    const taken = fitted.reduce((sum, column, i) => (i === flex ? sum : sum + column.width), 0);
+    fitted[flex] = { ...fitted[flex], width: Math.max(60, total - taken) };
+    return fitted;
+  }
+
+  // Shaded box with a yellow rule on the left, as used for loyalty points and notes
+  private static box(cursor: Cursor, title: string, lines: { text: string; bold?: boolean }[]): void {
+    const { doc } = cursor;
+    const width = RIGHT - LEFT;
+    const wrapped = lines.flatMap(line =>
+      doc.wrap(line.text, width - 30, BODY, line.bold ? 'bold' : 'regular').map(text => ({ text, bold: line.bold }))
+    );
+    const height = 40 + wrapped.length * 13;
+    this.ensure(cursor, height);
+    doc.rect(LEFT, cursor.y, width, height, { fill: SHADE });
+    doc.rect(LEFT, cursor.y, 3, height, { fill: ACCENT });
+    doc.text(title, LEFT + 15, cursor.y + 22, { size: 10.5, style: 'bold', color: BRAND });
+    wrapped.forEach((line, i) => {
+      doc.text(line.text, LEFT + 15, cursor.y + 38 + i * 13, { size: BODY, style: line.bold ? 'bold' : 'regular' });
+    });
+    cursor.y += height + 15;
+  }
+
+  // A4 tax invoice laid out like the printed one and written as a PDF file
+  static async buildPdf(invoiceData: InvoiceData, settings?: ShopSettings): Promise<Blob> {
+    const { shop, invoice, totals } = invoiceData;
+    const { items, total: grandTotal } = this.taxLines(invoiceData);
+    const grossAmount = items.reduce((sum, item) => sum + item.price * item.qty, 0);
+    const lineDiscountTotal = items.reduce((sum, item) => sum + (item.lineDiscount || 0), 0);
+    const loyalty = invoiceData.loyalty;
+    const promotionTotals = Promotions.totalsByName(invoiceData.promotions || []);
+    // Locally configured shop details take precedence over what the invoice endpoint returns
+    const shopName = settings?.shopName || shop.name;
+    const shopAddress = settings?.address || '';
+    const shopGstin = settings?.gstin || shop.gstin || '';
+    const buyer = invoiceData.buyer;
+    const placeOfSupply = Gst.placeOfSupply(shopGstin, buyer?.gstin, invoiceData.placeOfSupply);
+    const interState = Gst.isInterState(shopGstin, placeOfSupply);
+    const lineTaxes = items.map(item => Gst.splitLine(item, interState));
+    const taxTotals = Gst.totals(lineTaxes);
+    const hsnSummary = Gst.hsnSummary(items, interState);
+    const footer = settings?.invoiceFooter || 'Thank you for your business!';
+
+    const doc = new PdfDocument(await this.loadFonts(), `Invoice - ${invoice.id}`);
+    const cursor: Cursor = { doc, y: MARGIN };
+    const center = PdfDocument.WIDTH / 2;
+    const width = RIGHT - LEFT;
+
+    // Header
+    doc.text(shopName, center, cursor.y + 22, { size: 22, style: 'bold', color: BRAND, align: 'center' });
+    cursor.y += 40;
+    const meta = [
+      ...(shopAddress ? doc.wrap(shopAddress, width, 8.5) : []),
+      ...(shopGstin ? [`GSTIN: ${shopGstin} · State: ${Gst.describeState(Gst.stateOf(shopGstin))}`] : []),
+    ];
+    meta.forEach(line => {
+      doc.text(line, center, cursor.y, { size: 8.5, color: MUTED, align: 'center' });
+      cursor.y += 12;
+    });
+    doc.text('TAX INVOICE', center, cursor.y + 8, { size: 13, color: MUTED, align: 'center' });
+    cursor.y += 22;
+    doc.line(LEFT, cursor.y, RIGHT, cursor.y, BRAND, 1.5);
+    cursor.y += 20;
+
+    // Invoice Info
+    const payments = (invoice.payments || invoiceData.payments || []) as OrderPayment[];
+    const invoiceRows: Row[] = [
+      ['Invoice No:', invoice.id],
+      ['Date:', this.formatDate(invoice.date)],
+      ['Payment:', invoice.paymentMethod ? Tenders.label(invoice.paymentMethod) : 'N/A'],
+      ...payments.map((p): Row => {
+        const detail = p.reference || Tenders.describe(p);
+        return [`${Tenders.label(p.method)}:`, `${this.formatCurrency(p.amount)}${detail ? ` (${detail})` : ''}`];
+      }),
+    ];
+    const customerRows: Row[] = [
+      ...(buyer?.name ? [['Name:', buyer.name] as Row] : []),
+      ...(buyer ? [['GSTIN:', buyer.gstin] as Row] : []),
+      ['Phone:', invoice.customerPhone || 'N/A'],
+      ...(placeOfSupply ? [['Place of Supply:', Gst.describeState(placeOfSupply)] as Row] : []),
+    ];
+    const half = width / 2;
+    cursor.y = Math.max(
+      this.details(cursor, LEFT, half - 10, 'Invoice Details', invoiceRows),
+      this.details(cursor, LEFT + half + 10, half - 10, 'Customer Details', customerRows)
+    ) + 16;
+
+    // Items Table
+    const taxColumns: Column[] = interState
+      ? [{ label: 'IGST (₹)', width: 60, align: 'right' }]
+      : [{ label: 'CGST (₹)', width: 50, align: 'right' }, { label: 'SGST (₹)', width: 50, align: 'right' }];
+    const columns: Column[] = [
+      { label: 'Item', width: interState ? 145 : 120, align: 'left', flex: true },
+      { label: 'HSN/SAC', width: 55, align: 'center' },
+      { label: 'Qty', width: 30, align: 'center' },
+      { label: 'Rate (₹)', width: interState ? 60 : 55, align: 'right' },
+      { label: 'Taxable (₹)', width: interState ? 65 : 60, align: 'right' },
+      { label: 'GST%', width: 40, align: 'center' },
+      ...taxColumns,
+      { label: 'Total (₹)', width: interState ? 60 : 55, align: 'right' },
+    ];
+    this.table(cursor, columns, items.map((item, index) => {
+      const split = lineTaxes[index];
+      return [
+        {
+          text: item.name,
+          notes: [
+            ...(item.promoDiscount ? [`Promotion -${this.formatCurrency(item.promoDiscount)}`] : []),
+            ...(item.lineDiscount ? [`Discount -${this.formatCurrency(item.lineDiscount)}`] : []),
+          ],
+        },
+        { text: item.hsnSac || '-' },
+        { text: String(item.qty) },
+        { text: this.formatCurrency(item.unitPriceExcl) },
+        { text: this.formatCurrency(split.taxable) },
+        { text: `${item.gstRate}%` },
+        ...(interState
+          ? [{ text: this.formatCurrency(split.igst) }]
+          : [{ text: this.formatCurrency(split.cgst) }, { text: this.formatCurrency(split.sgst) }]),
+        { text: this.formatCurrency(item.lineTotal) },
+      ];
+    }));
+    cursor.y += 24;
+
+    // Totals
+    const totalRows: Row[] = [
+      [`Gross Amount${Tax.inclusive(invoiceData.pricesIncludeGst === undefined ? settings : invoiceData) ? ' (incl. GST)' : ''}:`, this.formatCurrency(grossAmount)],
+      ...promotionTotals.map((promo): Row => [`${promo.name}:`, `-${this.formatCurrency(promo.amount)}`]),
+      ...(lineDiscountTotal > 0 ? [['Line Discounts:', `-${this.formatCurrency(lineDiscountTotal)}`] as Row] : []),
+      ...(totals.discount > 0
+        ? [[`Discount${invoiceData.coupon ? ` (incl. coupon ${invoiceData.coupon.code})` : ''}:`, `-${this.formatCurrency(totals.discount)}`] as Row]
+        : []),
+      ['Taxable Value:', this.formatCurrency(taxTotals.taxable)],
+      ...(interState
+        ? [['IGST:', this.formatCurrency(taxTotals.igst)] as Row]
+        : [['CGST:', this.formatCurrency(taxTotals.cgst)] as Row, ['SGST:', this.formatCurrency(taxTotals.sgst)] as Row]),
+    ];
+    const totalsWidth = 225;
+    const totalsLeft = RIGHT - totalsWidth;
+    totalRows.forEach(([label, amount]) => {
+      const labelLines = doc.wrap(label, totalsWidth - 100, BODY, 'bold');
+      const height = labelLines.length * 11 + 12;
+      this.ensure(cursor, height);
+      labelLines.forEach((line, i) => {
+        doc.text(line, totalsLeft + 9, cursor.y + 6 + BODY + i * 11, { size: BODY, style: 'bold' });
+      });
+      doc.text(amount, RIGHT - 9, cursor.y + 6 + BODY, { size: BODY, style: 'bold', align: 'right' });
+      cursor.y += height;
+      doc.line(totalsLeft, cursor.y, RIGHT, cursor.y, '#eeeeee');
+    });
+    this.ensure(cursor, 26);
+    doc.rect(totalsLeft, cursor.y, totalsWidth, 26, { fill: BRAND });
+    doc.text('Grand Total:', totalsLeft + 9, cursor.y + 17, { size: 12, style: 'bold', color: '#ffffff' });
+    doc.text(this.formatCurrency(grandTotal), RIGHT - 9, cursor.y + 17, { size: 12, style: 'bold', color: '#ffffff', align: 'right' });
+    cursor.y += 50;
+
+    // HSN Summary
+    if (hsnSummary.length > 0) {
+      this.ensure(cursor, 80);
+      doc.text('HSN-wise Summary', LEFT, cursor.y + 11, { size: 10.5, style: 'bold', color: BRAND });
+      cursor.y += 22;
+      const labels = ['HSN/SAC', 'Qty', 'Taxable Value', 'Rate', ...(interState ? ['IGST'] : ['CGST', 'SGST']), 'Total Tax'];
+      this.table(
+        cursor,
+        labels.map((label, i): Column => ({ label, width: width / labels.length, align: i === 0 ? 'left' : 'right' })),
+        hsnSummary.map(row => [
+          { text: row.hsnSac || '-' },
+          { text: String(row.qty) },
+          { text: this.formatCurrency(row.taxable) },
+          { text: `${row.rate}%` },
+          ...(interState
+            ? [{ text: this.formatCurrency(row.igst) }]
+            : [{ text: this.formatCurrency(row.cgst) }, { text: this.formatCurrency(row.sgst) }]),
+          { text: this.formatCurrency(row.cgst + row.sgst + row.igst) },
+        ])
+      );
+      cursor.y += 24;
+    }
+
+    // Loyalty
+    if (loyalty) {
+      this.box(cursor, 'Loyalty Points', [
+        ...(loyalty.pointsRedeemed > 0 ? [{ text: `Redeemed: ${loyalty.pointsRedeemed} pts (-${this.formatCurrency(loyalty.redeemValue)})` }] : []),
+        ...(loyalty.pointsEarned > 0 ? [{ text: `Earned on this bill: ${loyalty.pointsEarned} pts` }] : []),
+        ...(loyalty.balance !== undefined ? [{ text: `Balance: ${loyalty.balance} pts`, bold: true }] : []),
+      ]);
     }
 
-    const html = `
-<!DOCTYPE html>
-<html>
-<head>
-    <meta charset="UTF-8">
-    <title>Invoice - ${invoice.id}</title>
-    <style>
-        * {
-            margin: 0;
-            padding: 0;
-            box-sizing: border-box;
-        }
-        
-        body {
-            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
-            font-size: 12px;
-            line-height: 1.4;
-            color: #333;
-            background: white;
-        }
-        
-        .invoice-container {
-            max-width: 800px;
-            margin: 0 auto;
-            padding: 20px;
-        }
-        
-        .header {
-            text-align: center;
-            margin-bottom: 30px;
-            border-bottom: 2px solid #d32b26;
-            padding-bottom: 20px;
-        }
-        
-        .shop-name {
-            font-size: 28px;
-            font-weight: bold;
-            color: #d32b26;
-            margin-bottom: 5px;
-        }
-        
-        .invoice-title {
-            font-size: 18px;
-            color: #666;
-            margin-top: 10px;
-        }
-        
-        .invoice-info {
-            display: flex;
-            justify-content: space-between;
-            margin-bottom: 30px;
-            flex-wrap: wrap;
-        }
-        
-        .invoice-details, .customer-details {
-            flex: 1;
-            min-width: 250px;
-        }
-        
-        .invoice-details h3, .customer-details h3 {
-            color: #d32b26;
-            margin-bottom: 10px;
-            font-size: 14px;
-        }
-        
-        .detail-row {
-            margin-bottom: 5px;
-        }
-        
-        .detail-label {
-            font-weight: 600;
-            display: inline-block;
-            width: 120px;
-        }
-        
-        .items-table {
-            width: 100%;
-            border-collapse: collapse;
-            margin-bottom: 30px;
-        }
-        
-        .items-table th {
-            background-color: #f8f9fa;
-            border: 1px solid #dee2e6;
-            padding: 12px 8px;
-            text-align: left;
-            font-weight: 600;
-            color: #495057;
-        }
-        
-        .items-table td {
-            border: 1px solid #dee2e6;
-            padding: 10px 8px;
-            text-align: left;
-        }
-        
-        .items-table .text-right {
-            text-align: right;
-        }
-        
-        .items-table .text-center {
-            text-align: center;
-        }
-        
-        .totals-section {
-            display: flex;
-            justify-content: flex-end;
-            margin-bottom: 30px;
-        }
-        
-        .totals-table {
-            width: 300px;
-            border-collapse: collapse;
-        }
-        
-        .totals-table td {
-            padding: 8px 12px;
-            border-bottom: 1px solid #eee;
-        }
-        
-        .totals-table .label {
-            font-weight: 600;
-            text-align: left;
-        }
-        
-        .totals-table .amount {
-            text-align: right;
-            font-weight: 600;
-        }
-        
-        .grand-total {
-            background-color: #d32b26;
-            color: white;
-            font-size: 16px;
-        }
-        
-        .gst-breakup {
-            margin-bottom: 30px;
-        }
-        
-        .gst-breakup h3 {
-            color: #d32b26;
-            margin-bottom: 15px;
-            font-size: 14px;
-        }
-        
-        .gst-table {
-            width: 300px;
-            border-collapse: collapse;
-        }
-        
-        .gst-table th, .gst-table td {
-            border: 1px solid #dee2e6;
-            padding: 8px 12px;
-            text-align: right;
-        }
-        
-        .gst-table th {
-            background-color: #f8f9fa;
-            font-weight: 600;
-        }
-        
-        .footer {
-            text-align: center;
-            margin-top: 40px;
-            padding-top: 20px;
-            border-top: 1px solid #eee;
-            color: #666;
-            font-size: 11px;
-        }
-        
-        .notes {
-            margin-bottom: 20px;
-            padding: 15px;
-            background-color: #f8f9fa;
-            border-left: 4px solid #fed21c;
-        }
-        
-        .notes h3 {
-            color: #d32b26;
-            margin-bottom: 8px;
-            font-size: 14px;
-        }
-        
-        @media print {
-            body {
-                font-size: 11px;
-            }
-            
-            .invoice-container {
-                padding: 10px;
-            }
-            
-            .header {
-                margin-bottom: 20px;
-                padding-bottom: 15px;
-            }
-            
-            .shop-name {
-                font-size: 24px;
-            }
-            
-            .invoice-title {
-                font-size: 16px;
-            }
-        }
-    </style>
-</head>
-<body>
-    <div class="invoice-container">
-        <!-- Header -->
-        <div class="header">
-            <div class="shop-name">${shop.name}</div>
-            <div class="invoice-title">TAX INVOICE</div>
-        </div>
-        
-        <!-- Invoice Info -->
-        <div class="invoice-info">
-            <div class="invoice-details">
-                <h3>Invoice Details</h3>
-                <div class="detail-row">
-                    <span class="detail-label">Invoice No:</span>
-                    <span>${invoice.id}</span>
-                </div>
-                <div class="detail-row">
-                    <span class="detail-label">Date:</span>
-                    <span>${this.formatDate(invoice.date)}</span>
-                </div>
-                <div class="detail-row">
-                    <span class="detail-label">Payment:</span>
-                    <span>${invoice.paymentMethod || 'N/A'}</span>
-                </div>
-            </div>
-            
-            <div class="customer-details">
-                <h3>Customer Details</h3>
-                <div class="detail-row">
-                    <span class="detail-label">Phone:</span>
-                    <span>${invoice.customerPhone || 'N/A'}</span>
-                </div>
-            </div>
-        </div>
-        
-        <!-- Items Table -->
-        <table class="items-table">
-            <thead>
-                <tr>
-                    <th>Item</th>
-                    <th class="text-center">HSN/SAC</th>
-                    <th class="text-center">Qty</th>
-                    <th class="text-right">Rate (₹)</th>
-                    <th class="text-center">GST%</th>
-                    <th class="text-right">GST Amt (₹)</th>
-                    <th class="text-right">Total (₹)</th>
-                </tr>
-            </thead>
-            <tbody>
-                ${items.map(item => `
-                    <tr>
-                        <td>${item.name}</td>
-                        <td class="text-center">${item.hsnSac || '-'}</td>
-                        <td class="text-center">${item.qty}</td>
-                        <td class="text-right">${this.formatCurrency(item.unitPriceExcl)}</td>
-                        <td class="text-center">${item.gstRate}%</td>
-                        <td class="text-right">${this.formatCurrency(item.lineGstAmount)}</td>
-                        <td class="text-right">${this.formatCurrency(item.lineTotal)}</td>
-                    </tr>
-                `).join('')}
-            </tbody>
-        </table>
-        
-        <!-- Totals -->
-        <div class="totals-section">
-            <table class="totals-table">
-                <tr>
-                    <td class="label">Subtotal:</td>
-                    <td class="amount">${this.formatCurrency(totals.baseAmount)}</td>
-                </tr>
-                <tr>
-                    <td class="label">GST:</td>
-                    <td class="amount">${this.formatCurrency(totals.gstAmount)}</td>
-                </tr>
-                ${totals.discount > 0 ? `
-                <tr>
-                    <td class="label">Discount:</td>
-                    <td class="amount">-${this.formatCurrency(totals.discount)}</td>
-                </tr>
-                ` : ''}
-                <tr class="grand-total">
-                    <td class="label">Grand Total:</td>
-                    <td class="amount">${this.formatCurrency(totals.grandTotal)}</td>
-                </tr>
-            </table>
-        </div>
-        
-        <!-- GST Breakup -->
-        ${gstBreakup.length > 0 ? `
-        <div class="gst-breakup">
-            <h3>GST Breakup</h3>
-            <table class="gst-table">
-                <thead>
-                    <tr>
-                        <th>GST Rate</th>
-                        <th>GST Amount</th>
-                    </tr>
-                </thead>
-                <tbody>
-                    ${gstBreakup.map(gst => `
-                        <tr>
-                            <td>${gst.rate}%</td>
-                            <td>${this.formatCurrency(gst.amount)}</td>
-                        </tr>
-                    `).join('')}
-                </tbody>
-            </table>
-        </div>
-        ` : ''}
-        
-        <!-- Notes -->
-        ${invoice.notes ? `
-        <div class="notes">
-            <h3>Notes</h3>
-            <p>${invoice.notes}</p>
-        </div>
-        ` : ''}
-        
-        <!-- Footer -->
-        <div class="footer">
-            <p>Thank you for your business!</p>
-            <p>Generated on ${new Date().toLocaleString('en-IN')}</p>
-        </div>
-    </div>
-    
-    <script>
-        window.onload = function() {
-            window.print();
-            window.onafterprint = function() {
-                window.close();
-            };
-        };
-    </script>
-</body>
-</html>`;
+    // Notes
+    if (invoice.notes) {
+      this.box(cursor, 'Notes', [{ text: invoice.notes }]);
+    }
+
+    // Footer
+    const footerLines = [...doc.wrap(footer, width, 8.5), `Generated on ${new Date().toLocaleString('en-IN')}`];
+    this.ensure(cursor, 36 + footerLines.length * 12);
+    cursor.y += 16;
+    doc.line(LEFT, cursor.y, RIGHT, cursor.y, '#eeeeee');
+    cursor.y += 20;
+    footerLines.forEach(line => {
+      doc.text(line, center, cursor.y, { size: 8.5, color: MUTED, align: 'center' });
+      cursor.y += 12;
+    });
+
+    return doc.toBlob();
+  }
 
-    printWindow.document.write(html);
-    printWindow.document.close();
+  // The same order always downloads under the same name
+  static fileName(orderId: string): string {
+    return `invoice-${orderId.replace(/[^A-Za-z0-9_-]/g, '') || 'order'}.pdf`;
   }
 
-  static async downloadInvoice(orderId: string, invoiceData: InvoiceData): Promise<void> {
+  static async downloadInvoice(orderId: string, invoiceData: InvoiceData, settings?: ShopSettings): Promise<void> {
+    let blob: Blob;
     try {
-      await this.generatePDF(invoiceData);
+      blob = await this.buildPdf(invoiceData, settings);
     } catch (error) {
       console.error('Failed to generate invoice:', error);
       throw new Error('Failed to generate invoice PDF');
     }
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = this.fileName(orderId);
+    link.click();
+    // Revoking in the same tick can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
   }
-}
\ No newline at end of file
+}
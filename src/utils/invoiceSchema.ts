@@ -0,0 +1,215 @@
+import type {
+  AppliedPromotion,
+  GstBuyer,
+  InvoiceData,
+  InvoiceLine,
+  Order,
+  OrderCoupon,
+  OrderLoyalty,
+  OrderPayment,
+  PaymentMethod,
+  Product,
+  ShopSettings,
+} from '../types';
+import { Tax } from './tax';
+import { Tenders } from './tenders';
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw => typeof value === 'object' && value !== null && !Array.isArray(value);
+const str = (value: unknown): string | undefined => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+const num = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+const amount = (value: unknown): number | undefined => {
+  const n = num(value);
+  return n !== undefined && n >= 0 ? n : undefined;
+};
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const method = (value: unknown): PaymentMethod | undefined =>
+  Tenders.list().find(t => t.method === value)?.method;
+
+const payments = (value: unknown): OrderPayment[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter(isObject).flatMap((p): OrderPayment[] => {
+    const m = method(p.method);
+    const paid = amount(p.amount);
+    if (!m || paid === undefined) return [];
+    const details = isObject(p.details)
+      ? Object.fromEntries(Object.entries(p.details).filter((e): e is [string, string] => typeof e[1] === 'string'))
+      : undefined;
+    return [{ method: m, amount: paid, reference: str(p.reference), details }];
+  });
+  return list.length ? list : undefined;
+};
+
+const promotions = (value: unknown): AppliedPromotion[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter(isObject).flatMap((p): AppliedPromotion[] => {
+    const name = str(p.name);
+    const itemIndex = num(p.itemIndex);
+    const off = amount(p.amount);
+    return name && itemIndex !== undefined && off !== undefined
+      ? [{ promotionId: str(p.promotionId) || '', name, itemIndex, amount: off }]
+      : [];
+  });
+  return list.length ? list : undefined;
+};
+
+const loyalty = (value: unknown): (OrderLoyalty & { balance?: number }) | undefined => {
+  if (!isObject(value)) return undefined;
+  return {
+    pointsEarned: amount(value.pointsEarned) ?? 0,
+    pointsRedeemed: amount(value.pointsRedeemed) ?? 0,
+    redeemValue: amount(value.redeemValue) ?? 0,
+    reversed: value.reversed === true || undefined,
+    balance: num(value.balance),
+  };
+};
+
+const coupon = (value: unknown): OrderCoupon | undefined => {
+  if (!isObject(value)) return undefined;
+  const code = str(value.code);
+  const off = amount(value.amount);
+  return code && off !== undefined
+    ? { couponId: str(value.couponId) || '', code, amount: off, released: value.released === true || undefined }
+    : undefined;
+};
+
+const buyer = (value: unknown): GstBuyer | undefined => {
+  if (!isObject(value)) return undefined;
+  const gstin = str(value.gstin);
+  return gstin ? { gstin: gstin.toUpperCase(), name: str(value.name) } : undefined;
+};
+
+// Lines without a usable quantity or price cannot be repaired, so they fail the whole invoice
+const line = (value: unknown, index: number): Omit<InvoiceLine, 'unitPriceExcl' | 'lineGstAmount' | 'lineTotal'> => {
+  if (!isObject(value)) throw new Error(`Invoice line ${index + 1} is not an object`);
+  const qty = num(value.qty);
+  const price = amount(value.price);
+  if (qty === undefined || qty <= 0) throw new Error(`Invoice line ${index + 1} has no quantity`);
+  if (price === undefined) throw new Error(`Invoice line ${index + 1} has no price`);
+  return {
+    productId: str(value.productId),
+    name: str(value.name) || 'Item',
+    size: str(value.size) || '-',
+    qty,
+    price,
+    subtotal: amount(value.subtotal) ?? round(price * qty),
+    promoDiscount: amount(value.promoDiscount) || undefined,
+    lineDiscount: amount(value.lineDiscount) || undefined,
+    hsnSac: str(value.hsnSac),
+    gstRate: Tax.rateOf({ gst: num(value.gstRate) ?? num(value.gst) }),
+  };
+};
+
+// Decodes invoice payloads from the invoice endpoint (or built locally) into a complete InvoiceData.
+// Missing or malformed optional fields are repaired from what is there; a payload without an id or
+// valid lines is rejected with an Error.
+export class InvoiceSchema {
+  static decode(payload: unknown, settings?: ShopSettings): InvoiceData {
+    // Accept `{ success, data }` envelopes like the other endpoints
+    const raw = isObject(payload) && isObject(payload.data) ? payload.data : payload;
+    if (!isObject(raw)) throw new Error('Invoice payload is not an object');
+
+    const header = isObject(raw.invoice) ? raw.invoice : {};
+    const orderId = str(raw.orderId) || str(header.id) || str(raw._id);
+    if (!orderId) throw new Error('Invoice payload has no order id');
+    if (!Array.isArray(raw.items) || raw.items.length === 0) throw new Error('Invoice payload has no items');
+
+    const base = raw.items.map(line);
+    const rawTotals = isObject(raw.totals) ? raw.totals : {};
+    const discount = amount(rawTotals.discount) ?? amount(raw.discount) ?? 0;
+    const pricesIncludeGst = typeof raw.pricesIncludeGst === 'boolean' ? raw.pricesIncludeGst : undefined;
+    // The server's own line figures are what was charged; the engine only fills in lines that lack them
+    const figures = (raw.items as unknown[]).map(value => (isObject(value) ? value : {}));
+    const needsTax = figures.some(f => amount(f.unitPriceExcl) === undefined || amount(f.lineGstAmount) === undefined || amount(f.lineTotal) === undefined);
+    const tax = needsTax
+      ? Tax.compute(
+        base.map(item => ({ price: item.price, qty: item.qty, rate: item.gstRate, discount: (item.promoDiscount || 0) + (item.lineDiscount || 0) })),
+        discount,
+        Tax.inclusive(pricesIncludeGst === undefined ? settings : { pricesIncludeGst })
+      )
+      : undefined;
+    const items: InvoiceLine[] = base.map((item, index) => ({
+      ...item,
+      unitPriceExcl: amount(figures[index].unitPriceExcl) ?? tax!.lines[index].unitPriceExcl,
+      lineGstAmount: amount(figures[index].lineGstAmount) ?? tax!.lines[index].gst,
+      lineTotal: amount(figures[index].lineTotal) ?? tax!.lines[index].total,
+    }));
+    const lineSum = (pick: (item: InvoiceLine) => number) => round(items.reduce((sum, item) => sum + pick(item), 0));
+
+    const byRate = new Map<number, number>();
+    items.forEach(item => byRate.set(item.gstRate, round((byRate.get(item.gstRate) || 0) + item.lineGstAmount)));
+    const gstBreakup = Array.isArray(raw.gstBreakup) && raw.gstBreakup.every(g => isObject(g) && num(g.rate) !== undefined && amount(g.amount) !== undefined)
+      ? (raw.gstBreakup as Raw[]).map(g => ({ rate: num(g.rate)!, amount: amount(g.amount)! }))
+      : Array.from(byRate, ([rate, gst]) => ({ rate, amount: gst })).filter(g => g.amount > 0);
+
+    const shop = isObject(raw.shop) ? raw.shop : {};
+    const date = str(header.date) || str(raw.date) || new Date().toISOString();
+    const paymentMethod = method(header.paymentMethod) || method(raw.paymentMethod);
+    const paymentList = payments(header.payments) || payments(raw.payments);
+    const customerPhone = str(header.customerPhone) || str(raw.customerPhone);
+    const notes = str(header.notes) || str(raw.notes);
+    const grandTotal = amount(rawTotals.grandTotal) ?? lineSum(item => item.lineTotal);
+
+    return {
+      orderId,
+      date,
+      customerPhone,
+      paymentMethod,
+      payments: paymentList,
+      discount: discount || undefined,
+      notes,
+      loyalty: loyalty(raw.loyalty),
+      promotions: promotions(raw.promotions),
+      coupon: coupon(raw.coupon),
+      buyer: buyer(raw.buyer),
+      placeOfSupply: str(raw.placeOfSupply),
+      pricesIncludeGst,
+      shop: { name: str(shop.name) || settings?.shopName || '', gstin: str(shop.gstin), address: str(shop.address) },
+      invoice: { id: str(header.id) || orderId, date, paymentMethod, payments: paymentList, customerPhone, notes },
+      items,
+      totals: {
+        baseAmount: amount(rawTotals.baseAmount) ?? lineSum(item => item.lineTotal - item.lineGstAmount),
+        gstAmount: amount(rawTotals.gstAmount) ?? lineSum(item => item.lineGstAmount),
+        discount,
+        grandTotal,
+      },
+      gstBreakup,
+      total: amount(raw.total) ?? grandTotal,
+      profit: num(raw.profit),
+    };
+  }
+
+  // Used when the invoice endpoint cannot be reached; names and GST rates come from the populated
+  // product, the line itself (quick sales) or the catalog list, in that order
+  static fromOrder(order: Order, settings?: ShopSettings, products: Product[] = []): InvoiceData {
+    return this.decode({
+      ...order,
+      orderId: order._id,
+      date: order.date || order.createdAt,
+      shop: { name: settings?.shopName, gstin: settings?.gstin, address: settings?.address },
+      items: order.items.map(item => {
+        const product = typeof item.product === 'object'
+          ? item.product
+          : products.find(p => p._id === item.product);
+        return {
+          productId: product?._id ?? (item.product as string | undefined),
+          name: product?.name || item.name,
+          size: item.size,
+          qty: item.qty,
+          price: item.price,
+          subtotal: item.subtotal,
+          promoDiscount: item.promoDiscount,
+          lineDiscount: item.lineDiscount,
+          hsnSac: product?.hsnSac || item.hsnSac,
+          gstRate: product?.gst ?? item.gst,
+        };
+      }),
+      totals: { discount: order.discount || 0, grandTotal: order.total },
+    }, settings);
+  }
+}
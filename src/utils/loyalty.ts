@@ -0,0 +1,32 @@
+import type { OrderLoyalty, ShopSettings } from '../types';
+
+export class Loyalty {
+  static isEnabled(settings: ShopSettings): boolean {
+    return settings.loyaltyPointsPer100 > 0 && settings.loyaltyPointValue > 0;
+  }
+
+  // Points a PAID order of this total earns; mirrors the server's accrual rule
+  static pointsFor(total: number, settings: ShopSettings): number {
+    if (!this.isEnabled(settings) || total <= 0) return 0;
+    return Math.floor((total / 100) * settings.loyaltyPointsPer100);
+  }
+
+  static valueOf(points: number, settings: ShopSettings): number {
+    return Math.round(points * settings.loyaltyPointValue * 100) / 100;
+  }
+
+  // What cancelOrder undoes on the ledger, for confirmation prompts; empty when nothing moved
+  static describeReversal(loyalty?: OrderLoyalty): string {
+    if (!loyalty || loyalty.reversed) return '';
+    const parts: string[] = [];
+    if (loyalty.pointsEarned > 0) parts.push(`${loyalty.pointsEarned} earned points will be removed`);
+    if (loyalty.pointsRedeemed > 0) parts.push(`${loyalty.pointsRedeemed} redeemed points will be returned`);
+    return parts.join(' and ');
+  }
+
+  // Most whole points usable without taking the bill below zero
+  static maxRedeemable(balance: number, payable: number, settings: ShopSettings): number {
+    if (!this.isEnabled(settings)) return 0;
+    return Math.max(0, Math.min(Math.floor(balance), Math.floor(payable / settings.loyaltyPointValue)));
+  }
+}
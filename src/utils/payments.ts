@@ -0,0 +1,33 @@
+import type { Order, OrderPayment, PaymentMethod } from '../types';
+
+export class Payments {
+  static round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  static sum(payments: OrderPayment[], method?: PaymentMethod): number {
+    return this.round(payments.reduce((s, p) => (!method || p.method === method ? s + p.amount : s), 0));
+  }
+
+  // Orders created before split payments only have a single paymentMethod covering the total
+  static forOrder(order: Order): OrderPayment[] {
+    if (order.payments && order.payments.length) return order.payments;
+    return [{ method: order.paymentMethod, amount: order.total, reference: order.paymentReference }];
+  }
+
+  // The largest tender is reported as the order's paymentMethod for older consumers
+  static primaryMethod(payments: OrderPayment[], fallback: PaymentMethod): PaymentMethod {
+    if (!payments.length) return fallback;
+    return payments.reduce((a, b) => (b.amount > a.amount ? b : a)).method;
+  }
+
+  static revenueByTender(orders: Order[]): Partial<Record<PaymentMethod, number>> {
+    const totals: Partial<Record<PaymentMethod, number>> = {};
+    orders
+      .filter(o => o.paymentStatus !== 'CANCELLED')
+      .forEach(o => this.forOrder(o).forEach(p => {
+        totals[p.method] = this.round((totals[p.method] || 0) + p.amount);
+      }));
+    return totals;
+  }
+}
@@ -0,0 +1,269 @@
+import { PdfFont } from './pdfFont';
+
+export type PdfFontStyle = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  size?: number;
+  style?: PdfFontStyle;
+  color?: string; // #rrggbb
+  align?: 'left' | 'center' | 'right'; // relative to x
+}
+
+export interface PdfShapeOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+// Each style lists its fonts in fallback order; a character is drawn with the first one that has it
+export type PdfFontSet = Record<PdfFontStyle, PdfFont[]>;
+
+const encoder = new TextEncoder();
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const rgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => num(c / 255)).join(' ');
+};
+
+const hex4 = (value: number) => value.toString(16).padStart(4, '0');
+
+const utf16Hex = (text: string) =>
+  Array.from({ length: text.length }, (_, i) => hex4(text.charCodeAt(i))).join('');
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Minimal PDF writer for A4 documents: text in embedded TrueType fonts, rectangles and lines.
+// Coordinates are in points from the top-left corner; text y is the baseline.
+export class PdfDocument {
+  static readonly WIDTH = 595.28;
+  static readonly HEIGHT = 841.89;
+
+  private pages: string[][] = [[]];
+  // Fonts in the order they were first used, with the text each glyph stands for (for copy/search)
+  private used = new Map<PdfFont, Map<number, string>>();
+
+  constructor(private readonly fonts: PdfFontSet, private readonly title = '') {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  widthOf(text: string, size: number, style: PdfFontStyle = 'regular'): number {
+    return this.runs(text, style).reduce(
+      (width, run) => width + run.glyphs.reduce((sum, glyph) => sum + run.font.widthOf(glyph), 0),
+      0
+    ) * size / 1000;
+  }
+
+  // Greedy word wrap; words longer than the line are broken between characters
+  wrap(text: string, maxWidth: number, size: number, style: PdfFontStyle = 'regular'): string[] {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.widthOf(candidate, size, style) <= maxWidth) {
+          line = candidate;
+          return;
+        }
+        if (line) lines.push(line);
+        line = '';
+        for (const ch of word) {
+          if (line && this.widthOf(line + ch, size, style) > maxWidth) {
+            lines.push(line);
+            line = '';
+          }
+          line += ch;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const { size = 10, style = 'regular', color = '#333333', align = 'left' } = options;
+    if (!text) return;
+    const width = this.widthOf(text, size, style);
+    let cursor = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    const ops: string[] = ['BT', `${rgb(color)} rg`];
+    this.runs(text, style).forEach(run => {
+      const glyphs = this.used.get(run.font) || new Map<number, string>();
+      this.used.set(run.font, glyphs);
+      run.glyphs.forEach((glyph, i) => glyphs.set(glyph, run.chars[i]));
+      const resource = this.resourceOf(run.font);
+      ops.push(
+        `/${resource} ${num(size)} Tf`,
+        `1 0 0 1 ${num(cursor)} ${num(PdfDocument.HEIGHT - y)} Tm`,
+        `<${run.glyphs.map(hex4).join('')}> Tj`
+      );
+      cursor += run.glyphs.reduce((sum, glyph) => sum + run.font.widthOf(glyph), 0) * size / 1000;
+    });
+    ops.push('ET');
+    this.current.push(ops.join('\n'));
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions = {}): void {
+    const { fill, stroke, lineWidth = 0.75 } = options;
+    if (!fill && !stroke) return;
+    const ops: string[] = ['q'];
+    if (fill) ops.push(`${rgb(fill)} rg`);
+    if (stroke) ops.push(`${rgb(stroke)} RG`, `${num(lineWidth)} w`);
+    ops.push(`${num(x)} ${num(PdfDocument.HEIGHT - y - height)} ${num(width)} ${num(height)} re`);
+    ops.push(fill && stroke ? 'B' : fill ? 'f' : 'S', 'Q');
+    this.current.push(ops.join('\n'));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = '#dee2e6', width = 0.75): void {
+    this.current.push([
+      'q',
+      `${rgb(color)} RG`,
+      `${num(width)} w`,
+      `${num(x1)} ${num(PdfDocument.HEIGHT - y1)} m`,
+      `${num(x2)} ${num(PdfDocument.HEIGHT - y2)} l`,
+      'S',
+      'Q',
+    ].join('\n'));
+  }
+
+  async toBlob(): Promise<Blob> {
+    const bodies = new Map<number, (string | Uint8Array)[]>();
+    let next = 1;
+    const reserve = () => next++;
+    const stream = async (dict: string, data: Uint8Array) => {
+      const packed = await deflate(data);
+      return [`<< ${dict} /Filter /FlateDecode /Length ${packed.length} >>\nstream\n`, packed, '\nendstream'];
+    };
+
+    const catalog = reserve();
+    const pagesRoot = reserve();
+    const info = reserve();
+
+    const fontRefs: string[] = [];
+    for (const [font, glyphs] of this.used) {
+      const [type0, cidFont, descriptor, file, toUnicode] = [reserve(), reserve(), reserve(), reserve(), reserve()];
+      const baseFont = font.name.replace(/[^A-Za-z0-9-]/g, '');
+      const sorted = Array.from(glyphs.keys()).sort((a, b) => a - b);
+      fontRefs.push(`/${this.resourceOf(font)} ${type0} 0 R`);
+
+      bodies.set(type0, [
+        `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H ` +
+        `/DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`,
+      ]);
+      bodies.set(cidFont, [
+        `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont} ` +
+        '/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ' +
+        `/FontDescriptor ${descriptor} 0 R /CIDToGIDMap /Identity ` +
+        `/W [${sorted.map(glyph => `${glyph} [${font.widthOf(glyph)}]`).join(' ')}] >>`,
+      ]);
+      bodies.set(descriptor, [
+        `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 32 /FontBBox [${font.bbox.join(' ')}] ` +
+        `/ItalicAngle 0 /Ascent ${font.ascent} /Descent ${font.descent} /CapHeight ${font.ascent} /StemV 80 ` +
+        `/FontFile2 ${file} 0 R >>`,
+      ]);
+      bodies.set(file, await stream(`/Length1 ${font.data.length}`, font.data));
+
+      // bfchar blocks hold at most 100 entries each
+      const mappings = sorted.map(glyph => `<${hex4(glyph)}> <${utf16Hex(glyphs.get(glyph) || '')}>`);
+      const blocks: string[] = [];
+      for (let i = 0; i < mappings.length; i += 100) {
+        const chunk = mappings.slice(i, i + 100);
+        blocks.push(`${chunk.length} beginbfchar\n${chunk.join('\n')}\nendbfchar`);
+      }
+      const cmap = [
+        '/CIDInit /ProcSet findresource begin',
+        '12 dict begin',
+        'begincmap',
+        '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+        '/CMapName /Adobe-Identity-UCS def',
+        '/CMapType 2 def',
+        '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+        ...blocks,
+        'endcmap',
+        'CMapName currentdict /CMap defineresource pop',
+        'end',
+        'end',
+      ].join('\n');
+      bodies.set(toUnicode, await stream('', encoder.encode(cmap)));
+    }
+
+    const kids: number[] = [];
+    for (const content of this.pages) {
+      const page = reserve();
+      const contents = reserve();
+      kids.push(page);
+      bodies.set(page, [
+        `<< /Type /Page /Parent ${pagesRoot} 0 R /MediaBox [0 0 ${PdfDocument.WIDTH} ${PdfDocument.HEIGHT}] ` +
+        `/Resources << /Font << ${fontRefs.join(' ')} >> >> /Contents ${contents} 0 R >>`,
+      ]);
+      bodies.set(contents, await stream('', encoder.encode(content.join('\n'))));
+    }
+
+    bodies.set(catalog, [`<< /Type /Catalog /Pages ${pagesRoot} 0 R >>`]);
+    bodies.set(pagesRoot, [`<< /Type /Pages /Kids [${kids.map(k => `${k} 0 R`).join(' ')}] /Count ${kids.length} >>`]);
+    bodies.set(info, [`<< /Title <feff${utf16Hex(this.title)}> >>`]);
+
+    // Header comment with high bytes marks the file as binary for transfer tools
+    const parts: Uint8Array[] = [encoder.encode('%PDF-1.7\n'), new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])];
+    let offset = parts.reduce((sum, p) => sum + p.length, 0);
+    const offsets: number[] = [];
+    for (let id = 1; id < next; id++) {
+      offsets[id] = offset;
+      const chunks = [`${id} 0 obj\n`, ...(bodies.get(id) || ['null']), '\nendobj\n']
+        .map(chunk => (typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+      chunks.forEach(chunk => {
+        parts.push(chunk);
+        offset += chunk.length;
+      });
+    }
+
+    const xref = [
+      'xref',
+      `0 ${next}`,
+      '0000000000 65535 f ',
+      ...offsets.slice(1).map(o => `${String(o).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${next} /Root ${catalog} 0 R /Info ${info} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+    ].join('\n');
+    parts.push(encoder.encode(`${xref}\n`));
+    return new Blob(parts, { type: 'application/pdf' });
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private resourceOf(font: PdfFont): string {
+    return `F${Array.from(this.used.keys()).indexOf(font) + 1}`;
+  }
+
+  // Splits text into runs that share a font, falling back through the style's font list
+  private runs(text: string, style: PdfFontStyle): { font: PdfFont; glyphs: number[]; chars: string[] }[] {
+    const fonts = this.fonts[style];
+    const runs: { font: PdfFont; glyphs: number[]; chars: string[] }[] = [];
+    for (const ch of text) {
+      const code = ch.codePointAt(0) || 0;
+      const font = fonts.find(f => f.glyphOf(code) !== 0) || fonts[0];
+      const last = runs[runs.length - 1];
+      if (last && last.font === font) {
+        last.glyphs.push(font.glyphOf(code));
+        last.chars.push(ch);
+      } else {
+        runs.push({ font, glyphs: [font.glyphOf(code)], chars: [ch] });
+      }
+    }
+    return runs;
+  }
+}
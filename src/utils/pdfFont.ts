@@ -0,0 +1,164 @@
+// TrueType font prepared for embedding in a PDF: the raw sfnt bytes plus the metrics and
+// character map needed to lay out text and write glyph ids.
+export class PdfFont {
+  private constructor(
+    readonly name: string,
+    readonly data: Uint8Array, // sfnt (TrueType) bytes, embedded as FontFile2
+    readonly unitsPerEm: number,
+    readonly ascent: number,
+    readonly descent: number,
+    readonly bbox: [number, number, number, number],
+    private readonly cmap: Map<number, number>,
+    private readonly advances: number[],
+  ) {}
+
+  // Glyph id for a code point; 0 (.notdef) when the font does not cover it
+  glyphOf(codePoint: number): number {
+    return this.cmap.get(codePoint) || 0;
+  }
+
+  // Advance width in 1/1000 em, the unit PDF uses for glyph widths
+  widthOf(glyph: number): number {
+    const advance = this.advances[Math.min(glyph, this.advances.length - 1)] || 0;
+    return Math.round((advance * 1000) / this.unitsPerEm);
+  }
+
+  static async fromUrl(name: string, url: string): Promise<PdfFont> {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Failed to load font ${name}`);
+    return this.fromWoff(name, new Uint8Array(await res.arrayBuffer()));
+  }
+
+  // WOFF 1.0 is an sfnt whose tables are individually zlib-compressed; this rebuilds the sfnt
+  static async fromWoff(name: string, woff: Uint8Array): Promise<PdfFont> {
+    const view = new DataView(woff.buffer, woff.byteOffset, woff.byteLength);
+    if (view.getUint32(0) !== 0x774f4646) throw new Error(`${name} is not a WOFF font`);
+    const flavor = view.getUint32(4);
+    const numTables = view.getUint16(12);
+
+    const tables: { tag: string; checksum: number; data: Uint8Array }[] = [];
+    for (let i = 0; i < numTables; i++) {
+      const entry = 44 + i * 20;
+      const tag = String.fromCharCode(...woff.subarray(entry, entry + 4));
+      const offset = view.getUint32(entry + 4);
+      const compLength = view.getUint32(entry + 8);
+      const origLength = view.getUint32(entry + 12);
+      const raw = woff.subarray(offset, offset + compLength);
+      tables.push({
+        tag,
+        checksum: view.getUint32(entry + 16),
+        data: compLength < origLength ? await this.inflate(raw) : raw,
+      });
+    }
+    const sfnt = this.buildSfnt(flavor, tables);
+    const byTag = new Map(tables.map(t => [t.tag, t.data]));
+    return this.parse(name, sfnt, byTag);
+  }
+
+  private static async inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  private static buildSfnt(flavor: number, tables: { tag: string; checksum: number; data: Uint8Array }[]): Uint8Array {
+    const sorted = [...tables].sort((a, b) => (a.tag < b.tag ? -1 : 1));
+    const headerSize = 12 + sorted.length * 16;
+    const total = sorted.reduce((size, t) => size + ((t.data.length + 3) & ~3), headerSize);
+    const out = new Uint8Array(total);
+    const view = new DataView(out.buffer);
+    const entrySelector = Math.floor(Math.log2(sorted.length));
+    view.setUint32(0, flavor);
+    view.setUint16(4, sorted.length);
+    view.setUint16(6, 2 ** entrySelector * 16);
+    view.setUint16(8, entrySelector);
+    view.setUint16(10, sorted.length * 16 - 2 ** entrySelector * 16);
+    let offset = headerSize;
+    sorted.forEach((table, i) => {
+      const record = 12 + i * 16;
+      for (let c = 0; c < 4; c++) out[record + c] = table.tag.charCodeAt(c);
+      view.setUint32(record + 4, table.checksum);
+      view.setUint32(record + 8, offset);
+      view.setUint32(record + 12, table.data.length);
+      out.set(table.data, offset);
+      offset += (table.data.length + 3) & ~3;
+    });
+    return out;
+  }
+
+  private static parse(name: string, sfnt: Uint8Array, tables: Map<string, Uint8Array>): PdfFont {
+    const table = (tag: string) => {
+      const data = tables.get(tag);
+      if (!data) throw new Error(`${name} has no ${tag} table`);
+      return new DataView(data.buffer, data.byteOffset, data.byteLength);
+    };
+    const head = table('head');
+    const hhea = table('hhea');
+    const hmtx = table('hmtx');
+    const unitsPerEm = head.getUint16(18);
+    const scale = (v: number) => Math.round((v * 1000) / unitsPerEm);
+    const bbox: [number, number, number, number] = [
+      scale(head.getInt16(36)), scale(head.getInt16(38)), scale(head.getInt16(40)), scale(head.getInt16(42)),
+    ];
+
+    const metrics = hhea.getUint16(34);
+    const advances: number[] = [];
+    for (let i = 0; i < metrics; i++) advances.push(hmtx.getUint16(i * 4));
+
+    return new PdfFont(
+      name, sfnt, unitsPerEm, scale(hhea.getInt16(4)), scale(hhea.getInt16(6)), bbox, this.parseCmap(table('cmap')), advances,
+    );
+  }
+
+  // Reads the Windows Unicode subtable: format 12 (full range) when present, else format 4 (BMP)
+  private static parseCmap(cmap: DataView): Map<number, number> {
+    const map = new Map<number, number>();
+    const count = cmap.getUint16(2);
+    let format4 = -1;
+    let format12 = -1;
+    for (let i = 0; i < count; i++) {
+      const platform = cmap.getUint16(4 + i * 8);
+      const encoding = cmap.getUint16(6 + i * 8);
+      const offset = cmap.getUint32(8 + i * 8);
+      const format = cmap.getUint16(offset);
+      if (format === 12 && (platform === 3 || platform === 0)) format12 = offset;
+      if (format === 4 && ((platform === 3 && encoding === 1) || platform === 0)) format4 = offset;
+    }
+
+    if (format12 >= 0) {
+      const groups = cmap.getUint32(format12 + 12);
+      for (let g = 0; g < groups; g++) {
+        const at = format12 + 16 + g * 12;
+        const start = cmap.getUint32(at);
+        const end = cmap.getUint32(at + 4);
+        const glyph = cmap.getUint32(at + 8);
+        for (let c = start; c <= end; c++) map.set(c, glyph + (c - start));
+      }
+      return map;
+    }
+    if (format4 < 0) return map;
+
+    const segments = cmap.getUint16(format4 + 6) / 2;
+    const ends = format4 + 14;
+    const starts = ends + segments * 2 + 2;
+    const deltas = starts + segments * 2;
+    const rangeOffsets = deltas + segments * 2;
+    for (let s = 0; s < segments; s++) {
+      const start = cmap.getUint16(starts + s * 2);
+      const end = cmap.getUint16(ends + s * 2);
+      const delta = cmap.getInt16(deltas + s * 2);
+      const rangeOffset = cmap.getUint16(rangeOffsets + s * 2);
+      for (let c = start; c <= end && c !== 0xffff; c++) {
+        let glyph: number;
+        if (rangeOffset === 0) {
+          glyph = (c + delta) & 0xffff;
+        } else {
+          const at = rangeOffsets + s * 2 + rangeOffset + (c - start) * 2;
+          glyph = cmap.getUint16(at);
+          if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+        }
+        if (glyph !== 0) map.set(c, glyph);
+      }
+    }
+    return map;
+  }
+}
@@ -0,0 +1,119 @@
+import type { AppliedPromotion, CartItem, Promotion, PromotionRule } from '../types';
+
+export interface PromotionResult {
+  applied: AppliedPromotion[];
+  lineDiscounts: number[]; // indexed like the cart items
+  total: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const minutesOf = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+// Evaluates promotion rules against the cart. Unit-consuming rules (bundles, then buy-X-get-Y)
+// run first so a unit is never discounted twice; percentage sales then take the best single
+// rate for whatever units are left on each line.
+export class Promotions {
+  static isActive(promotion: Promotion, now: Date = new Date()): boolean {
+    if (!promotion.active) return false;
+    if (promotion.startsAt && now < new Date(promotion.startsAt)) return false;
+    if (promotion.endsAt && now > new Date(promotion.endsAt)) return false;
+    const window = promotion.happyHour;
+    if (window) {
+      if (window.days && window.days.length && !window.days.includes(now.getDay())) return false;
+      const current = now.getHours() * 60 + now.getMinutes();
+      const start = minutesOf(window.start);
+      const end = minutesOf(window.end);
+      // Windows like 22:00-02:00 wrap past midnight
+      const inWindow = start <= end ? current >= start && current < end : current >= start || current < end;
+      if (!inWindow) return false;
+    }
+    return true;
+  }
+
+  static describe(rule: PromotionRule): string {
+    switch (rule.type) {
+      case 'CATEGORY_PERCENT': return `${rule.percent}% off ${rule.category}`;
+      case 'BRAND_PERCENT': return `${rule.percent}% off ${rule.brand}`;
+      case 'BUY_X_GET_Y': return `Buy ${rule.buyQty} get ${rule.getQty} free${rule.category ? ` in ${rule.category}` : ''}`;
+      case 'BUNDLE_PRICE': return `${rule.productIds.length} products for ₹${rule.price}`;
+    }
+  }
+
+  static evaluate(items: CartItem[], promotions: Promotion[], now: Date = new Date()): PromotionResult {
+    const active = promotions.filter(p => this.isActive(p, now));
+    const consumed = items.map(() => 0);
+    const lineDiscounts = items.map(() => 0);
+    const applied: AppliedPromotion[] = [];
+
+    const credit = (promotion: Promotion, itemIndex: number, amount: number) => {
+      const lineValue = items[itemIndex].retailPrice * items[itemIndex].cartQuantity;
+      const value = round(Math.min(amount, lineValue - lineDiscounts[itemIndex]));
+      if (value <= 0) return;
+      lineDiscounts[itemIndex] = round(lineDiscounts[itemIndex] + value);
+      const existing = applied.find(a => a.promotionId === promotion._id && a.itemIndex === itemIndex);
+      if (existing) existing.amount = round(existing.amount + value);
+      else applied.push({ promotionId: promotion._id, name: promotion.name, itemIndex, amount: value });
+    };
+    const freeUnits = (index: number) => items[index].cartQuantity - consumed[index];
+
+    active.forEach(promotion => {
+      const rule = promotion.rule;
+      if (rule.type !== 'BUNDLE_PRICE' || rule.productIds.length < 2) return;
+      for (;;) {
+        const picks = rule.productIds.map(id => items.findIndex((it, i) => it._id === id && freeUnits(i) > 0));
+        if (picks.some(i => i < 0)) break;
+        const fullPrice = picks.reduce((sum, i) => sum + items[i].retailPrice, 0);
+        const saving = fullPrice - rule.price;
+        if (saving <= 0) break;
+        picks.forEach(i => {
+          consumed[i] += 1;
+          credit(promotion, i, (saving * items[i].retailPrice) / fullPrice);
+        });
+      }
+    });
+
+    active.forEach(promotion => {
+      const rule = promotion.rule;
+      if (rule.type !== 'BUY_X_GET_Y' || rule.buyQty < 1 || rule.getQty < 1) return;
+      const units = items
+        .flatMap((it, i) => (!rule.category || it.category === rule.category ? Array(Math.max(0, freeUnits(i))).fill(i) : []))
+        .sort((a, b) => items[b].retailPrice - items[a].retailPrice);
+      const groupSize = rule.buyQty + rule.getQty;
+      for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+        const group = units.slice(start, start + groupSize);
+        group.forEach(i => { consumed[i] += 1; });
+        group.slice(rule.buyQty).forEach(i => credit(promotion, i, items[i].retailPrice));
+      }
+    });
+
+    items.forEach((item, index) => {
+      const units = freeUnits(index);
+      if (units <= 0) return;
+      let best: { promotion: Promotion; percent: number } | null = null;
+      for (const promotion of active) {
+        const rule = promotion.rule;
+        const matches = (rule.type === 'CATEGORY_PERCENT' && rule.category === item.category)
+          || (rule.type === 'BRAND_PERCENT' && !!item.brand && rule.brand.toLowerCase() === item.brand.toLowerCase());
+        if (matches && rule.percent > (best?.percent || 0)) best = { promotion, percent: Math.min(100, rule.percent) };
+      }
+      if (best) credit(best.promotion, index, (item.retailPrice * units * best.percent) / 100);
+    });
+
+    return {
+      applied,
+      lineDiscounts,
+      total: round(lineDiscounts.reduce((sum, d) => sum + d, 0)),
+    };
+  }
+
+  // Applied promotions grouped by name, for summaries and invoices
+  static totalsByName(applied: AppliedPromotion[]): { name: string; amount: number }[] {
+    const totals = new Map<string, number>();
+    applied.forEach(a => totals.set(a.name, round((totals.get(a.name) || 0) + a.amount)));
+    return Array.from(totals, ([name, amount]) => ({ name, amount }));
+  }
+}
@@ -0,0 +1,241 @@
+import QRCode from 'qrcode';
+import { InvoiceData, OrderPayment, ShopSettings } from '../types';
+import { EscPos } from './escPos';
+import { Gst } from './gst';
+import { InvoiceGenerator } from './invoiceGenerator';
+import { Promotions } from './promotions';
+import { Tax } from './tax';
+import { Tenders } from './tenders';
+
+export type ReceiptPaper = '58' | '80';
+
+// One receipt line; text is already folded to ASCII and padded to the paper's character width
+export type ReceiptLine =
+  | { kind: 'text'; text: string; align?: 'left' | 'center'; bold?: boolean; tall?: boolean }
+  | { kind: 'rule' }
+  | { kind: 'qr'; data: string };
+
+// Characters per line in the printer's standard font
+const COLUMNS: Record<ReceiptPaper, number> = { '58': 32, '80': 48 };
+
+const money = (amount: number) => amount.toFixed(2);
+
+// Thermal receipts for the counter: one layout rendered either as ESC/POS bytes or as a narrow HTML page
+export class ReceiptGenerator {
+  // Monospace word wrap keeping the leading indent on every line; words longer than the line are split
+  private static wrap(text: string, width: number): string[] {
+    const indent = /^ */.exec(text)?.[0] || '';
+    width -= indent.length;
+    const lines: string[] = [];
+    let line = '';
+    EscPos.ascii(text).split(/\s+/).filter(Boolean).forEach(word => {
+      while (word.length > width) {
+        if (line) lines.push(line);
+        lines.push(word.slice(0, width));
+        word = word.slice(width);
+        line = '';
+      }
+      if (!word) return;
+      if (line && line.length + 1 + word.length > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    });
+    if (line) lines.push(line);
+    return lines.map(wrapped => indent + wrapped);
+  }
+
+  // Label on the left, value on the right; the label is cut short rather than pushing the value over
+  private static pair(label: string, value: string, width: number): string {
+    const right = EscPos.ascii(value);
+    const left = EscPos.ascii(label).slice(0, Math.max(0, width - right.length - 1));
+    return left + ' '.repeat(Math.max(1, width - left.length - right.length)) + right;
+  }
+
+  static layout(invoiceData: InvoiceData, settings: ShopSettings | undefined, paper: ReceiptPaper): ReceiptLine[] {
+    const width = COLUMNS[paper];
+    const { shop, invoice, totals } = invoiceData;
+    const { items, total: grandTotal } = InvoiceGenerator.taxLines(invoiceData);
+    const shopGstin = settings?.gstin || shop.gstin || '';
+    const buyer = invoiceData.buyer;
+    const placeOfSupply = Gst.placeOfSupply(shopGstin, buyer?.gstin, invoiceData.placeOfSupply);
+    const interState = Gst.isInterState(shopGstin, placeOfSupply);
+    const taxTotals = Gst.totals(items.map(item => Gst.splitLine(item, interState)));
+    const lineDiscountTotal = items.reduce((sum, item) => sum + (item.lineDiscount || 0), 0);
+    const loyalty = invoiceData.loyalty;
+
+    const lines: ReceiptLine[] = [];
+    const text = (value: string, style: Omit<Extract<ReceiptLine, { kind: 'text' }>, 'kind' | 'text'> = {}) =>
+      this.wrap(value, width).forEach(line => lines.push({ kind: 'text', text: line, ...style }));
+    const pair = (label: string, value: string, bold = false) =>
+      lines.push({ kind: 'text', text: this.pair(label, value, width), bold });
+    const rule = () => lines.push({ kind: 'rule' });
+
+    // Header
+    text(settings?.shopName || shop.name, { align: 'center', bold: true, tall: true });
+    (settings?.address || '').split('\n').forEach(part => text(part, { align: 'center' }));
+    if (shopGstin) text(`GSTIN: ${shopGstin}`, { align: 'center' });
+    text('TAX INVOICE', { align: 'center', bold: true });
+    rule();
+
+    pair('Bill No', invoice.id);
+    pair('Date', new Date(invoice.date).toLocaleString('en-IN', {
+      day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit',
+    }));
+    if (invoice.customerPhone) pair('Phone', invoice.customerPhone);
+    if (buyer?.name) text(`Buyer: ${buyer.name}`);
+    if (buyer) pair('Buyer GSTIN', buyer.gstin);
+    if (buyer && placeOfSupply) text(`Place of Supply: ${Gst.describeState(placeOfSupply)}`);
+    rule();
+
+    // Items
+    pair('Item', 'Amount', true);
+    items.forEach(item => {
+      text(item.size && item.size !== '-' ? `${item.name} (${item.size})` : item.name);
+      pair(`  ${item.qty} x ${money(item.price)}${item.gstRate ? ` @${item.gstRate}%` : ''}`, money(item.lineTotal));
+      if (item.promoDiscount) pair('  Promotion', `-${money(item.promoDiscount)}`);
+      if (item.lineDiscount) pair('  Discount', `-${money(item.lineDiscount)}`);
+    });
+    rule();
+
+    // Totals
+    pair(`Gross${Tax.inclusive(invoiceData.pricesIncludeGst === undefined ? settings : invoiceData) ? ' (incl. GST)' : ''}`, money(items.reduce((sum, item) => sum + item.price * item.qty, 0)));
+    Promotions.totalsByName(invoiceData.promotions || []).forEach(promo => pair(promo.name, `-${money(promo.amount)}`));
+    if (lineDiscountTotal > 0) pair('Line discounts', `-${money(lineDiscountTotal)}`);
+    if (totals.discount > 0) {
+      pair(invoiceData.coupon ? `Discount (${invoiceData.coupon.code})` : 'Discount', `-${money(totals.discount)}`);
+    }
+    pair('Taxable value', money(taxTotals.taxable));
+    if (interState) {
+      pair('IGST', money(taxTotals.igst));
+    } else {
+      pair('CGST', money(taxTotals.cgst));
+      pair('SGST', money(taxTotals.sgst));
+    }
+    lines.push({ kind: 'text', text: this.pair('TOTAL', `Rs.${money(grandTotal)}`, width), bold: true, tall: true });
+    rule();
+
+    // Payments and loyalty
+    const payments = (invoice.payments || invoiceData.payments || []) as OrderPayment[];
+    if (payments.length > 0) {
+      payments.forEach(p => {
+        pair(Tenders.label(p.method), money(p.amount));
+        const detail = p.reference || Tenders.describe(p);
+        if (detail) text(`  ${detail}`);
+      });
+    } else if (invoice.paymentMethod) {
+      pair('Paid by', Tenders.label(invoice.paymentMethod));
+    }
+    if (loyalty) {
+      if (loyalty.pointsRedeemed > 0) pair('Points redeemed', `${loyalty.pointsRedeemed} (-${money(loyalty.redeemValue)})`);
+      if (loyalty.pointsEarned > 0) pair('Points earned', String(loyalty.pointsEarned));
+      if (loyalty.balance !== undefined) pair('Points balance', String(loyalty.balance), true);
+    }
+    if (invoice.notes) text(invoice.notes);
+    rule();
+
+    // Footer with the order id as a QR code, for returns and exchanges
+    text(settings?.invoiceFooter || 'Thank you for your business!', { align: 'center' });
+    lines.push({ kind: 'qr', data: invoiceData.orderId });
+    text(invoiceData.orderId, { align: 'center' });
+    return lines;
+  }
+
+  // Short slip for checking the pairing; the rule should run exactly edge to edge on the chosen paper
+  static testPage(shopName: string, paper: ReceiptPaper): Uint8Array {
+    return this.encode([
+      { kind: 'text', text: EscPos.ascii(shopName).slice(0, COLUMNS[paper]), align: 'center', bold: true, tall: true },
+      { kind: 'text', text: `Printer test - ${paper}mm paper`, align: 'center' },
+      { kind: 'rule' },
+      { kind: 'text', text: this.pair('TOTAL', 'Rs.0.00', COLUMNS[paper]), bold: true, tall: true },
+      { kind: 'qr', data: 'TEST' },
+    ], paper);
+  }
+
+  static escPos(invoiceData: InvoiceData, settings: ShopSettings | undefined, paper: ReceiptPaper): Uint8Array {
+    return this.encode(this.layout(invoiceData, settings, paper), paper);
+  }
+
+  static encode(lines: ReceiptLine[], paper: ReceiptPaper): Uint8Array {
+    const printer = new EscPos();
+    lines.forEach(line => {
+      if (line.kind === 'rule') {
+        printer.align('left').line('-'.repeat(COLUMNS[paper]));
+      } else if (line.kind === 'qr') {
+        printer.align('center').qr(line.data, paper === '58' ? 4 : 6).line();
+      } else {
+        printer.align(line.align || 'left').bold(!!line.bold).tall(!!line.tall).line(line.text).bold(false).tall(false);
+      }
+    });
+    return printer.feed(3).cut().bytes();
+  }
+
+  // Browser print fallback sized to the roll, for printers that are installed as regular OS printers.
+  // Rendering is async (QR images); printing is split out so it can run straight from a click.
+  static async html(invoiceData: InvoiceData, settings: ShopSettings | undefined, paper: ReceiptPaper): Promise<string> {
+    const lines = this.layout(invoiceData, settings, paper);
+    const escapeHtml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const body = await Promise.all(lines.map(async line => {
+      if (line.kind === 'rule') return '<div class="rule"></div>';
+      if (line.kind === 'qr') {
+        const src = await QRCode.toDataURL(line.data, { errorCorrectionLevel: 'M', margin: 1, width: 160 });
+        return `<div class="qr"><img src="${src}" alt=""></div>`;
+      }
+      const classes = [line.align === 'center' ? 'center' : '', line.bold ? 'bold' : '', line.tall ? 'tall' : ''].join(' ');
+      return `<div class="${classes.trim()}">${escapeHtml(line.text) || '&nbsp;'}</div>`;
+    }));
+    // Printable width is about 48mm on 58mm rolls and 72mm on 80mm rolls; 1.5mm per character fills it
+    const printable = paper === '58' ? 48 : 72;
+
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>Receipt - ${escapeHtml(invoiceData.invoice.id)}</title>
+    <style>
+        @page { size: ${paper}mm auto; margin: 0; }
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { width: ${printable}mm; margin: 0 auto; padding: 3mm 0; font-family: 'Courier New', monospace; font-size: 2.5mm; line-height: 1.35; color: #000; }
+        div { white-space: pre; }
+        .center { text-align: center; }
+        .bold { font-weight: bold; }
+        .tall { transform: scaleY(1.6); transform-origin: bottom; margin-top: 1.5mm; }
+        .rule { border-top: 1px dashed #000; margin: 1.2mm 0; }
+        .qr { text-align: center; margin-top: 2mm; }
+        .qr img { width: 26mm; height: 26mm; }
+    </style>
+</head>
+<body>
+    ${body.join('\n    ')}
+</body>
+</html>`;
+  }
+
+  // Prints from a hidden iframe in this document, so no popup blocker is involved. Call it while the
+  // click that asked for the receipt is still active; browsers may refuse print() once it has lapsed.
+  static async printHtml(html: string): Promise<void> {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;visibility:hidden;';
+    document.body.appendChild(frame);
+
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) {
+      frame.remove();
+      throw new Error('Unable to prepare the receipt for printing');
+    }
+    const doc = frameWindow.document;
+    doc.open();
+    doc.write(html);
+    doc.close();
+    // The QR codes are data URLs, so this takes milliseconds and the click is still active afterwards
+    await Promise.all(Array.from(doc.images).map(img => img.decode().catch(() => undefined)));
+    // print() blocks until the dialog closes in most browsers; afterprint covers the ones that don't
+    frameWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+    frameWindow.focus();
+    frameWindow.print();
+  }
+}
@@ -0,0 +1,43 @@
+import type { CartItem, Product, StockLevel } from '../types';
+
+export class StockLevels {
+  private static lookup(levels: StockLevel[]): Map<string, Map<string, number>> {
+    const byProduct = new Map<string, Map<string, number>>();
+    levels.forEach(level => {
+      const sizes = byProduct.get(level.productId) || new Map<string, number>();
+      sizes.set(level.size, Math.max(0, level.quantity));
+      byProduct.set(level.productId, sizes);
+    });
+    return byProduct;
+  }
+
+  // Applies the levels to Product.sizes; untouched products (and an unchanged list) keep their identity
+  static patchProducts<T extends Product>(products: T[], levels: StockLevel[]): T[] {
+    const byProduct = this.lookup(levels);
+    let changed = false;
+    const next = products.map(product => {
+      const sizes = byProduct.get(product._id);
+      if (!sizes || !product.sizes.some(s => sizes.has(s.size) && sizes.get(s.size) !== s.quantity)) return product;
+      changed = true;
+      return { ...product, sizes: product.sizes.map(s => (sizes.has(s.size) ? { ...s, quantity: sizes.get(s.size)! } : s)) };
+    });
+    return changed ? next : products;
+  }
+
+  // Cart lines also carry their size's stock in `quantity`; cartQuantity is left for the cashier to adjust
+  static patchCart(items: CartItem[], levels: StockLevel[]): CartItem[] {
+    const patched = this.patchProducts(items, levels);
+    if (patched === items) return items;
+    return patched.map(item => {
+      const stock = item.sizes.find(s => s.size === item.selectedSize)?.quantity ?? item.quantity;
+      return stock === item.quantity ? item : { ...item, quantity: stock };
+    });
+  }
+
+  // Lines asking for more than is now on hand, e.g. after another terminal sold the same size
+  static shortLines(items: CartItem[]): string[] {
+    return items
+      .filter(item => !item.misc && item.cartQuantity > item.quantity)
+      .map(item => `${item.name} (${item.selectedSize}): ${item.quantity} left`);
+  }
+}
@@ -0,0 +1,88 @@
+import type { ShopSettings } from '../types';
+
+export interface TaxLineInput {
+  price: number; // unit price as entered in the catalog
+  qty: number;
+  rate: number; // GST %
+  discount?: number; // ₹ taken off this line only (promotions and line discounts)
+}
+
+export interface TaxLine {
+  rate: number;
+  gross: number; // price × qty
+  discount: number; // line discount plus this line's share of the bill discount
+  unitPriceExcl: number; // per unit before GST and discounts
+  taxable: number;
+  gst: number;
+  total: number; // taxable + gst
+}
+
+export interface TaxBreakdown {
+  lines: TaxLine[];
+  taxable: number;
+  gst: number;
+  total: number;
+}
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+const fromPaise = (paise: number) => paise / 100;
+
+// GST for carts, edited orders and invoices, so every screen arrives at the same total.
+// Amounts are worked in whole paise; with inclusive prices any rounding lands on GST, never on the total.
+export class Tax {
+  static rateOf(item: { gst?: number }): number {
+    const rate = Number(item.gst);
+    return Number.isFinite(rate) && rate > 0 ? rate : 0;
+  }
+
+  // Prices are GST-inclusive unless the shop (or the order, for a past sale) says otherwise
+  static inclusive(settings?: Partial<Pick<ShopSettings, 'pricesIncludeGst'>>): boolean {
+    return settings?.pricesIncludeGst !== false;
+  }
+
+  // Splits an amount across weights in proportion, handing leftover paise to the largest remainders
+  static apportion(amount: number, weights: number[]): number[] {
+    const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+    const paise = toPaise(amount);
+    if (paise <= 0 || total <= 0) return weights.map(() => 0);
+    const exact = weights.map(w => (paise * Math.max(0, w)) / total);
+    const shares = exact.map(Math.floor);
+    let left = paise - shares.reduce((sum, s) => sum + s, 0);
+    exact
+      .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+      .sort((a, b) => b.remainder - a.remainder)
+      .forEach(({ index }) => {
+        if (left <= 0) return;
+        shares[index] += 1;
+        left -= 1;
+      });
+    return shares.map(fromPaise);
+  }
+
+  // billDiscount covers everything taken off the whole bill (bill discount, coupon, redeemed points)
+  static compute(inputs: TaxLineInput[], billDiscount: number, inclusive: boolean): TaxBreakdown {
+    const nets = inputs.map(input => Math.max(0, input.price * input.qty - (input.discount || 0)));
+    const billable = nets.reduce((sum, n) => sum + n, 0);
+    const shares = this.apportion(Math.min(Math.max(0, billDiscount), billable), nets);
+
+    const lines = inputs.map((input, index): TaxLine => {
+      const rate = this.rateOf({ gst: input.rate });
+      const gross = toPaise(input.price * input.qty);
+      const value = Math.max(0, toPaise(nets[index]) - toPaise(shares[index]));
+      const taxable = inclusive ? Math.round((value * 100) / (100 + rate)) : value;
+      const total = inclusive ? value : taxable + Math.round((taxable * rate) / 100);
+      return {
+        rate,
+        gross: fromPaise(gross),
+        discount: fromPaise(gross - value),
+        unitPriceExcl: fromPaise(inclusive ? Math.round((toPaise(input.price) * 100) / (100 + rate)) : toPaise(input.price)),
+        taxable: fromPaise(taxable),
+        gst: fromPaise(total - taxable),
+        total: fromPaise(total),
+      };
+    });
+
+    const sum = (pick: (line: TaxLine) => number) => fromPaise(lines.reduce((s, line) => s + toPaise(pick(line)), 0));
+    return { lines, taxable: sum(l => l.taxable), gst: sum(l => l.gst), total: sum(l => l.total) };
+  }
+}
@@ -0,0 +1,121 @@
+import { Banknote, CreditCard, Smartphone, Ticket, type LucideIcon } from 'lucide-react';
+import type { OrderPayment, PaymentMethod } from '../types';
+
+// A value the cashier keys in when taking this tender
+export interface TenderField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  pattern?: RegExp;
+  maxLength?: number;
+  inputMode?: 'text' | 'numeric';
+  required?: boolean;
+}
+
+export interface TenderDefinition {
+  method: PaymentMethod;
+  label: string;
+  icon: LucideIcon;
+  captureFields: TenderField[];
+  // Capture keys surfaced in sales history and invoices for end-of-day matching
+  reconciliationFields: string[];
+  givesChange?: boolean; // cash over-tender is handed back
+  collectsViaQr?: boolean; // amount is collected through the UPI QR modal
+}
+
+export class Tenders {
+  private static registry = new Map<PaymentMethod, TenderDefinition>();
+
+  static register(definition: TenderDefinition) {
+    this.registry.set(definition.method, definition);
+  }
+
+  static list(): TenderDefinition[] {
+    return Array.from(this.registry.values());
+  }
+
+  static get(method: PaymentMethod): TenderDefinition {
+    return this.registry.get(method) || this.registry.get('CASH')!;
+  }
+
+  static label(method: PaymentMethod): string {
+    return this.registry.get(method)?.label || method;
+  }
+
+  // Returns a message for the first missing or malformed capture field
+  static validate(payment: OrderPayment): string | null {
+    const definition = this.get(payment.method);
+    for (const field of definition.captureFields) {
+      const value = (payment.details?.[field.key] || '').trim();
+      if (!value) {
+        if (field.required) return `${definition.label}: ${field.label} is required`;
+        continue;
+      }
+      if (field.pattern && !field.pattern.test(value)) return `${definition.label}: ${field.label} is invalid`;
+    }
+    return null;
+  }
+
+  // Keeps only trimmed, non-empty capture values; undefined when nothing was captured
+  static cleanDetails(method: PaymentMethod, details?: Record<string, string>): Record<string, string> | undefined {
+    if (!details) return undefined;
+    const cleaned: Record<string, string> = {};
+    this.get(method).captureFields.forEach(f => {
+      const value = (details[f.key] || '').trim();
+      if (value) cleaned[f.key] = value;
+    });
+    return Object.keys(cleaned).length ? cleaned : undefined;
+  }
+
+  // "Last 4: 1234 · Approval: A1B2" style summary of the reconciliation fields
+  static describe(payment: OrderPayment): string {
+    const definition = this.get(payment.method);
+    return definition.reconciliationFields
+      .map(key => {
+        const value = payment.details?.[key];
+        const field = definition.captureFields.find(f => f.key === key);
+        return value ? `${field?.label || key}: ${value}` : '';
+      })
+      .filter(Boolean)
+      .join(' · ');
+  }
+}
+
+Tenders.register({
+  method: 'CASH',
+  label: 'Cash',
+  icon: Banknote,
+  captureFields: [],
+  reconciliationFields: [],
+  givesChange: true,
+});
+
+Tenders.register({
+  method: 'UPI',
+  label: 'UPI',
+  icon: Smartphone,
+  captureFields: [],
+  reconciliationFields: [],
+  collectsViaQr: true,
+});
+
+Tenders.register({
+  method: 'CARD',
+  label: 'Card',
+  icon: CreditCard,
+  captureFields: [
+    { key: 'last4', label: 'Last 4', placeholder: '1234', pattern: /^\d{4}$/, maxLength: 4, inputMode: 'numeric', required: true },
+    { key: 'approvalCode', label: 'Approval', placeholder: 'Approval code', pattern: /^[A-Za-z0-9]{4,12}$/, maxLength: 12, required: true },
+  ],
+  reconciliationFields: ['last4', 'approvalCode'],
+});
+
+Tenders.register({
+  method: 'STORE_CREDIT',
+  label: 'Store Credit',
+  icon: Ticket,
+  captureFields: [
+    { key: 'creditNoteNumber', label: 'Credit Note', placeholder: 'Credit note number', maxLength: 32, required: true },
+  ],
+  reconciliationFields: ['creditNoteNumber'],
+});
@@ -0,0 +1,37 @@
+export interface UPIIntentParams {
+  vpa: string;
+  payeeName: string;
+  amount: number;
+  reference: string;
+  note?: string;
+}
+
+// Builds NPCI `upi://pay` deep links that any UPI app can scan
+export class UPIIntent {
+  private static readonly VPA_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,64}$/;
+
+  static isValidVpa(vpa: string): boolean {
+    return this.VPA_PATTERN.test(vpa.trim());
+  }
+
+  // Short, human-readable reference printed in the payer's UPI app and on our order
+  static createReference(): string {
+    const stamp = Date.now().toString(36).toUpperCase();
+    const rand = Math.random().toString(36).slice(2, 6).toUpperCase();
+    return `POS${stamp}${rand}`;
+  }
+
+  static buildUri({ vpa, payeeName, amount, reference, note }: UPIIntentParams): string {
+    // URLSearchParams encodes spaces as '+', which several UPI apps show literally
+    const params: [string, string][] = [
+      ['pa', vpa.trim()],
+      ['pn', payeeName.trim()],
+      ['am', amount.toFixed(2)],
+      ['cu', 'INR'],
+      ['tr', reference],
+      ['tn', note || `Order ${reference}`],
+    ];
+    const query = params.map(([k, v]) => `${k}=${encodeURIComponent(v)}`).join('&');
+    return `upi://pay?${query}`;
+  }
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_UPI_VPA?: string;
+  readonly VITE_UPI_PAYEE_NAME?: string;
+}